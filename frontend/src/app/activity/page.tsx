@@ -0,0 +1,29 @@
+'use client';
+
+import { ActivityFeed } from '@/components/ActivityFeed';
+
+export default function ActivityPage() {
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
+            {/* Background Elements */}
+            <div className="fixed inset-0 overflow-hidden pointer-events-none">
+                <div className="absolute -top-1/2 -left-1/2 w-full h-full bg-gradient-radial from-purple-500/10 via-transparent to-transparent" />
+                <div className="absolute -bottom-1/2 -right-1/2 w-full h-full bg-gradient-radial from-blue-500/10 via-transparent to-transparent" />
+            </div>
+
+            <div className="relative z-10 container mx-auto px-6 py-12">
+                {/* Header */}
+                <div className="mb-12">
+                    <h1 className="text-4xl font-bold text-white mb-4">Protocol Activity</h1>
+                    <p className="text-white/60 text-lg">
+                        Every lottery created, WonkaBar bought, winner drawn and claim made on MeltyFi, as it happens.
+                    </p>
+                </div>
+
+                <div className="max-w-4xl">
+                    <ActivityFeed />
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,223 @@
+'use client';
+
+import { useMeltyFiAdmin } from '@/hooks/useMeltyFiAdmin';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { formatSuiAmount, shortenAddress } from '@/lib/utils';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import {
+    Coins,
+    PauseCircle,
+    PlayCircle,
+    Shield,
+    UserPlus,
+    Wallet
+} from 'lucide-react';
+import { useState } from 'react';
+
+// Same backdrop as the other pages
+function PageBackground({ children }: { children: React.ReactNode }) {
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
+            {/* Background Elements */}
+            <div className="fixed inset-0 overflow-hidden pointer-events-none">
+                <div className="absolute -top-1/2 -left-1/2 w-full h-full bg-gradient-radial from-purple-500/10 via-transparent to-transparent" />
+                <div className="absolute -bottom-1/2 -right-1/2 w-full h-full bg-gradient-radial from-blue-500/10 via-transparent to-transparent" />
+            </div>
+
+            <div className="relative z-10 container mx-auto px-6 py-12">
+                {children}
+            </div>
+        </div>
+    );
+}
+
+export default function AdminPage() {
+    const currentAccount = useCurrentAccount();
+    const { explorerUrl } = useMeltyFiNetwork();
+    const {
+        isProtocolAdmin,
+        isFactoryAdmin,
+        isAdmin,
+        isCheckingAdminAccess,
+        treasury,
+        isPaused,
+        authorizedMinters,
+        isLoadingChocolateFactory,
+        setProtocolPause,
+        isSettingPause,
+        withdrawProtocolFees,
+        isWithdrawingFees,
+        authorizeChocoMinter,
+        isAuthorizingMinter
+    } = useMeltyFiAdmin();
+
+    const [withdrawAmount, setWithdrawAmount] = useState('');
+    const [newMinter, setNewMinter] = useState('');
+
+    if (isCheckingAdminAccess) {
+        return (
+            <PageBackground>
+                <div className="text-center">
+                    <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+                    <p className="text-white/60 mt-4">Checking admin access...</p>
+                </div>
+            </PageBackground>
+        );
+    }
+
+    if (!currentAccount || !isAdmin) {
+        return (
+            <PageBackground>
+                <div className="max-w-md mx-auto rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-12 text-center">
+                    <Shield className="w-16 h-16 text-white/40 mx-auto mb-4" />
+                    <h3 className="text-xl font-semibold text-white mb-2">Admins Only</h3>
+                    <p className="text-white/60">
+                        {currentAccount
+                            ? 'The connected wallet holds neither the AdminCap nor the FactoryAdmin for this deployment.'
+                            : 'Connect the wallet that holds the AdminCap or FactoryAdmin.'}
+                    </p>
+                </div>
+            </PageBackground>
+        );
+    }
+
+    // Whole MIST only; rounding avoids float artefacts like 0.1 * 1e9
+    const withdrawMist = withdrawAmount ? Math.round(parseFloat(withdrawAmount) * 1000000000).toString() : '0';
+    const canWithdraw = !!withdrawAmount && parseFloat(withdrawAmount) > 0 && BigInt(withdrawMist) <= BigInt(treasury);
+
+    return (
+        <PageBackground>
+            {/* Header */}
+            <div className="mb-12">
+                <h1 className="text-4xl font-bold text-white mb-4">Admin Console</h1>
+                <p className="text-white/60 text-lg">
+                    Manage the protocol with the capabilities held by {shortenAddress(currentAccount.address)}.
+                </p>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {isProtocolAdmin && (
+                    <>
+                        {/* Pause */}
+                        <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+                            <div className="flex items-center gap-3 mb-4">
+                                <div className="w-10 h-10 bg-gradient-to-br from-yellow-500 to-orange-500 rounded-lg flex items-center justify-center">
+                                    {isPaused ? <PauseCircle className="w-5 h-5 text-white" /> : <PlayCircle className="w-5 h-5 text-white" />}
+                                </div>
+                                <div>
+                                    <h2 className="text-lg font-semibold text-white">Protocol Status</h2>
+                                    <p className="text-sm text-white/60">
+                                        Currently <span className={isPaused ? 'text-yellow-400' : 'text-green-400'}>{isPaused ? 'paused' : 'running'}</span>
+                                    </p>
+                                </div>
+                            </div>
+                            <p className="text-sm text-white/60 mb-4">
+                                Pausing blocks creating, buying, resolving and cancelling lotteries. Claims stay available.
+                            </p>
+                            <button
+                                onClick={() => setProtocolPause({ paused: !isPaused }).catch(() => undefined)}
+                                disabled={isSettingPause}
+                                className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:from-gray-600 disabled:to-gray-600 text-white font-medium py-2 px-4 rounded-md transition-colors"
+                            >
+                                {isSettingPause ? 'Updating...' : isPaused ? 'Unpause Protocol' : 'Pause Protocol'}
+                            </button>
+                        </div>
+
+                        {/* Treasury */}
+                        <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+                            <div className="flex items-center gap-3 mb-4">
+                                <div className="w-10 h-10 bg-gradient-to-br from-blue-500 to-cyan-500 rounded-lg flex items-center justify-center">
+                                    <Coins className="w-5 h-5 text-white" />
+                                </div>
+                                <div>
+                                    <h2 className="text-lg font-semibold text-white">Treasury</h2>
+                                    <p className="text-sm text-white/60">{formatSuiAmount(treasury)} SUI available</p>
+                                </div>
+                            </div>
+                            <label className="block text-sm font-medium text-white/80 mb-3">Amount (SUI)</label>
+                            <div className="flex gap-2 mb-4">
+                                <input
+                                    type="number"
+                                    step="0.001"
+                                    min="0"
+                                    value={withdrawAmount}
+                                    onChange={(e) => setWithdrawAmount(e.target.value)}
+                                    className="w-full px-4 py-3 bg-black/20 border border-white/20 rounded-lg text-white placeholder-white/50 focus:border-purple-400 focus:outline-none transition-colors"
+                                    placeholder="0.0"
+                                />
+                                <button
+                                    onClick={() => setWithdrawAmount(formatSuiAmount(treasury, 9))}
+                                    className="border border-white/20 hover:bg-white/10 text-white text-sm font-medium px-4 rounded-lg transition-colors"
+                                >
+                                    Max
+                                </button>
+                            </div>
+                            <button
+                                onClick={() => withdrawProtocolFees({ amount: withdrawMist })
+                                    .then(() => setWithdrawAmount(''))
+                                    .catch(() => undefined)}
+                                disabled={isWithdrawingFees || !canWithdraw}
+                                className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:from-gray-600 disabled:to-gray-600 text-white font-medium py-2 px-4 rounded-md transition-colors"
+                            >
+                                {isWithdrawingFees ? 'Withdrawing...' : 'Withdraw to Connected Wallet'}
+                            </button>
+                        </div>
+                    </>
+                )}
+
+                {isFactoryAdmin && (
+                    <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-6 lg:col-span-2">
+                        <div className="flex items-center gap-3 mb-4">
+                            <div className="w-10 h-10 bg-gradient-to-br from-purple-500 to-pink-500 rounded-lg flex items-center justify-center">
+                                <UserPlus className="w-5 h-5 text-white" />
+                            </div>
+                            <div>
+                                <h2 className="text-lg font-semibold text-white">ChocoChip Minters</h2>
+                                <p className="text-sm text-white/60">Addresses allowed to mint ChocoChip rewards</p>
+                            </div>
+                        </div>
+
+                        {isLoadingChocolateFactory ? (
+                            <p className="text-sm text-white/60 mb-4">Loading minters...</p>
+                        ) : (
+                            <div className="rounded-lg border border-white/10 divide-y divide-white/10 mb-4">
+                                {authorizedMinters.map((minter) => (
+                                    <a
+                                        key={minter}
+                                        href={explorerUrl('address', minter)}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className="flex items-center gap-2 px-4 py-3 text-sm font-mono text-white/80 hover:bg-white/5 transition-colors"
+                                    >
+                                        <Wallet className="w-4 h-4 text-white/40" />
+                                        {minter}
+                                    </a>
+                                ))}
+                            </div>
+                        )}
+
+                        <label className="block text-sm font-medium text-white/80 mb-3">New Minter Address</label>
+                        <div className="flex gap-2">
+                            <input
+                                type="text"
+                                value={newMinter}
+                                onChange={(e) => setNewMinter(e.target.value.trim())}
+                                className="w-full px-4 py-3 bg-black/20 border border-white/20 rounded-lg text-white font-mono placeholder-white/50 focus:border-purple-400 focus:outline-none transition-colors"
+                                placeholder="0x..."
+                            />
+                            <button
+                                onClick={() => authorizeChocoMinter({ minter: newMinter })
+                                    .then(() => setNewMinter(''))
+                                    .catch(() => undefined)}
+                                disabled={isAuthorizingMinter || !newMinter}
+                                className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:from-gray-600 disabled:to-gray-600 text-white font-medium px-6 rounded-lg transition-colors whitespace-nowrap"
+                            >
+                                {isAuthorizingMinter ? 'Authorizing...' : 'Authorize'}
+                            </button>
+                        </div>
+                    </div>
+                )}
+            </div>
+        </PageBackground>
+    );
+}
@@ -0,0 +1,224 @@
+'use client';
+
+import { useChocoChip } from '@/hooks/useChocoChip';
+import { useMeltyFi } from '@/hooks/useMeltyFi';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { formatCoinAmount, formatTimeAgo, shortenAddress } from '@/lib/utils';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import {
+    Coins,
+    ExternalLink,
+    Factory,
+    ShieldCheck
+} from 'lucide-react';
+import { useState } from 'react';
+
+export default function ChocoChipPage() {
+    const currentAccount = useCurrentAccount();
+    const { userStats } = useMeltyFi();
+    const { explorerUrl } = useMeltyFiNetwork();
+    const {
+        decimals,
+        symbol,
+        totalSupply,
+        maxSupply,
+        isLoadingSupply,
+        mints,
+        isLoadingMints,
+        fetchMoreMints,
+        hasMoreMints,
+        isFetchingMoreMints,
+        userMints,
+        isLoadingUserMints,
+        fetchMoreUserMints,
+        hasMoreUserMints,
+        isFetchingMoreUserMints,
+        minters,
+        isLoadingMinters
+    } = useChocoChip();
+
+    const [showMine, setShowMine] = useState(false);
+
+    const supplyProgress = BigInt(maxSupply) > BigInt(0)
+        ? Number((BigInt(totalSupply) * BigInt(10000)) / BigInt(maxSupply)) / 100
+        : 0;
+    const visibleMints = showMine ? userMints : mints;
+    const isLoadingVisibleMints = showMine ? isLoadingUserMints : isLoadingMints;
+    const hasMoreVisibleMints = showMine ? hasMoreUserMints : hasMoreMints;
+    const isFetchingMoreVisibleMints = showMine ? isFetchingMoreUserMints : isFetchingMoreMints;
+    const fetchMoreVisibleMints = showMine ? fetchMoreUserMints : fetchMoreMints;
+
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
+            {/* Background Elements */}
+            <div className="fixed inset-0 overflow-hidden pointer-events-none">
+                <div className="absolute -top-1/2 -left-1/2 w-full h-full bg-gradient-radial from-purple-500/10 via-transparent to-transparent" />
+                <div className="absolute -bottom-1/2 -right-1/2 w-full h-full bg-gradient-radial from-blue-500/10 via-transparent to-transparent" />
+            </div>
+
+            <div className="relative z-10 container mx-auto px-6 py-12">
+                {/* Header */}
+                <div className="mb-12">
+                    <h1 className="text-4xl font-bold text-white mb-4">ChocoChips</h1>
+                    <p className="text-white/60 text-lg">
+                        The MeltyFi reward token: supply, mints and who is allowed to mint.
+                    </p>
+                </div>
+
+                {/* Stats */}
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-6 mb-12">
+                    <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+                        <div className="flex items-center gap-3 mb-4">
+                            <div className="w-10 h-10 bg-gradient-to-br from-yellow-500 to-orange-500 rounded-lg flex items-center justify-center">
+                                <Coins className="w-5 h-5 text-white" />
+                            </div>
+                            <span className="text-white/60">Your Balance</span>
+                        </div>
+                        <div className="text-3xl font-bold text-white">
+                            {currentAccount
+                                ? `${formatCoinAmount(userStats?.chocoChipBalance ?? '0', decimals)} ${symbol}`
+                                : 'Connect wallet'}
+                        </div>
+                    </div>
+
+                    <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+                        <div className="flex items-center gap-3 mb-4">
+                            <div className="w-10 h-10 bg-gradient-to-br from-purple-500 to-pink-500 rounded-lg flex items-center justify-center">
+                                <Factory className="w-5 h-5 text-white" />
+                            </div>
+                            <span className="text-white/60">Circulating Supply</span>
+                        </div>
+                        <div className="text-3xl font-bold text-white mb-4">
+                            {isLoadingSupply ? '...' : `${formatCoinAmount(totalSupply, decimals)} ${symbol}`}
+                        </div>
+                        <div className="flex justify-between text-xs text-white/60 mb-2">
+                            <span>Cap: {formatCoinAmount(maxSupply, decimals, 0)} {symbol}</span>
+                            <span>{supplyProgress.toFixed(2)}%</span>
+                        </div>
+                        <div className="w-full bg-white/10 rounded-full h-2">
+                            <div
+                                className="bg-gradient-to-r from-purple-500 to-pink-500 h-2 rounded-full transition-all duration-300"
+                                style={{ width: `${Math.min(supplyProgress, 100)}%` }}
+                            />
+                        </div>
+                    </div>
+                </div>
+
+                <div className="grid grid-cols-1 lg:grid-cols-3 gap-8">
+                    {/* Mint History */}
+                    <div className="lg:col-span-2">
+                        <div className="flex items-center justify-between mb-6">
+                            <h2 className="text-2xl font-bold text-white">Mint History</h2>
+                            {currentAccount && (
+                                <div className="flex gap-2">
+                                    {[false, true].map((mine) => (
+                                        <button
+                                            key={String(mine)}
+                                            onClick={() => setShowMine(mine)}
+                                            className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${showMine === mine
+                                                ? 'bg-gradient-to-r from-purple-600 to-pink-600 text-white'
+                                                : 'border border-white/20 text-white/80 hover:bg-white/10'
+                                                }`}
+                                        >
+                                            {mine ? 'Mine' : 'All'}
+                                        </button>
+                                    ))}
+                                </div>
+                            )}
+                        </div>
+
+                        {isLoadingVisibleMints ? (
+                            <div className="text-center py-12">
+                                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+                            </div>
+                        ) : visibleMints.length === 0 ? (
+                            <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-12 text-center">
+                                <Coins className="w-16 h-16 text-white/40 mx-auto mb-4" />
+                                <p className="text-white/60">
+                                    {showMine
+                                        ? hasMoreUserMints ? 'No ChocoChips minted to you in your recent transactions.' : 'No ChocoChips minted to you yet.'
+                                        : 'No ChocoChips minted yet.'}
+                                </p>
+                            </div>
+                        ) : (
+                            <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm divide-y divide-white/10">
+                                {visibleMints.map((mint) => (
+                                    <div key={mint.id} className="flex items-center justify-between gap-4 px-4 py-3 text-sm">
+                                        <div className="min-w-0">
+                                            <p className="text-white/80">
+                                                <a
+                                                    href={explorerUrl('address', mint.recipient)}
+                                                    target="_blank"
+                                                    rel="noopener noreferrer"
+                                                    className="font-mono text-white hover:text-pink-300 transition-colors"
+                                                >
+                                                    {shortenAddress(mint.recipient)}
+                                                </a>
+                                                {' '}received {formatCoinAmount(mint.amount, decimals)} {symbol}
+                                            </p>
+                                            <p className="text-xs text-white/40 mt-1">
+                                                Minted by {shortenAddress(mint.minter)}
+                                                {mint.timestamp ? ` · ${formatTimeAgo(mint.timestamp)}` : ''}
+                                            </p>
+                                        </div>
+                                        <a
+                                            href={explorerUrl('txblock', mint.digest)}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="flex items-center gap-1 text-xs text-white/40 hover:text-white transition-colors shrink-0"
+                                        >
+                                            Tx <ExternalLink className="w-3 h-3" />
+                                        </a>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+
+                        {hasMoreVisibleMints && (
+                            <div className="mt-6 text-center">
+                                <button
+                                    onClick={() => fetchMoreVisibleMints()}
+                                    disabled={isFetchingMoreVisibleMints}
+                                    className="border border-white/20 hover:bg-white/10 disabled:opacity-50 text-white text-sm font-medium px-4 py-2 rounded-md transition-colors"
+                                >
+                                    {isFetchingMoreVisibleMints ? 'Loading...' : 'Load More'}
+                                </button>
+                            </div>
+                        )}
+                    </div>
+
+                    {/* Authorized Minters */}
+                    <div>
+                        <h2 className="text-2xl font-bold text-white mb-6">Authorized Minters</h2>
+                        {isLoadingMinters ? (
+                            <div className="text-center py-12">
+                                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+                            </div>
+                        ) : (
+                            <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm divide-y divide-white/10">
+                                {minters.map(({ address, authorization }) => (
+                                    <div key={address} className="px-4 py-3">
+                                        <a
+                                            href={explorerUrl('address', address)}
+                                            target="_blank"
+                                            rel="noopener noreferrer"
+                                            className="flex items-center gap-2 text-sm font-mono text-white/80 hover:text-white transition-colors"
+                                        >
+                                            <ShieldCheck className="w-4 h-4 text-green-400" />
+                                            {shortenAddress(address)}
+                                        </a>
+                                        <p className="text-xs text-white/40 mt-1">
+                                            {authorization
+                                                ? `Authorized by ${shortenAddress(authorization.authorizedBy)}${authorization.timestamp ? ` · ${formatTimeAgo(authorization.timestamp)}` : ''}`
+                                                : 'Authorized at deployment'}
+                                        </p>
+                                    </div>
+                                ))}
+                            </div>
+                        )}
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+}
@@ -1,8 +1,12 @@
 'use client';
-import { useMeltyFi } from '@/hooks/useMeltyFi';
+import { useMeltyFiActions, type CreatedLottery } from '@/hooks/useMeltyFi';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { PROTOCOL_PAUSED_REASON, useProtocolStatus } from '@/hooks/useProtocolStatus';
 import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
 import {
+    CheckCircle,
     Coins,
+    ExternalLink,
     Image as ImageIcon
 } from 'lucide-react';
 import Image from 'next/image';
@@ -14,7 +18,7 @@ interface NFT {
     description: string;
     imageUrl: string;
     collection?: string;
-    type: string; // This will now store the collection address
+    type: string; // Full struct type, passed as the create_lottery type argument
 }
 
 /**
@@ -126,16 +130,13 @@ const detectUserNFTs = async (suiClient: any, ownerAddress: string): Promise<NFT
                     display.project_name ||
                     fields.project_name;
 
-                // Extract collection address from the type
-                const collectionAddress = type ? type.split('::')[0] : '';
-
                 const nft: NFT = {
                     id: obj.data?.objectId || '',
                     name: name,
                     description: description,
                     imageUrl: getSafeImageUrl(imageUrl), // Use safe URL function
                     collection: collection,
-                    type: collectionAddress, // Store collection address instead of full type
+                    type: type,
                 };
 
                 // Only add if we have a valid ID and name
@@ -186,16 +187,13 @@ const detectUserNFTs = async (suiClient: any, ownerAddress: string): Promise<NFT
                         const content = obj.data?.content as any;
                         const fields = content?.fields || {};
 
-                        // Extract collection address from the type
-                        const collectionAddress = type ? type.split('::')[0] : '';
-
                         const nft: NFT = {
                             id: obj.data?.objectId || '',
                             name: display.name || fields.name || `NFT ${obj.data?.objectId?.slice(-8)}`,
                             description: display.description || fields.description || '',
                             imageUrl: getSafeImageUrl(display.image_url || fields.image_url || display.url || fields.url || '/placeholder-nft.png'),
                             collection: display.collection_name || fields.collection_name || display.collection || fields.collection,
-                            type: collectionAddress, // Store collection address instead of full type
+                            type: type,
                         };
 
                         if (nft.id && nft.name) {
@@ -221,7 +219,9 @@ const detectUserNFTs = async (suiClient: any, ownerAddress: string): Promise<NFT
 export default function CreateLotteryPage() {
     const currentAccount = useCurrentAccount();
     const suiClient = useSuiClient();
-    const { createLottery, isCreatingLottery } = useMeltyFi();
+    const { createLottery, isCreatingLottery } = useMeltyFiActions();
+    const { explorerUrl } = useMeltyFiNetwork();
+    const { isPaused } = useProtocolStatus();
 
     const [selectedNFT, setSelectedNFT] = useState<NFT | null>(null);
     const [userNFTs, setUserNFTs] = useState<NFT[]>([]);
@@ -230,15 +230,19 @@ export default function CreateLotteryPage() {
     const [maxSupply, setMaxSupply] = useState('100');
     const [duration, setDuration] = useState('7');
     const [showNFTModal, setShowNFTModal] = useState(false);
+    const [createdLottery, setCreatedLottery] = useState<CreatedLottery | null>(null);
 
     // Function to handle collection address click
     const handleCollectionClick = (collectionAddress: string) => {
         if (collectionAddress) {
             // Open Sui Explorer in new tab
-            window.open(`https://suiscan.xyz/mainnet/object/${collectionAddress}`, '_blank');
+            window.open(explorerUrl('object', collectionAddress), '_blank');
         }
     };
 
+    // Collection (package) address is the first segment of the struct type
+    const getCollectionAddress = (type: string) => type.split('::')[0];
+
     // Function to truncate long addresses
     const truncateAddress = (address: string, startChars = 6, endChars = 4) => {
         if (!address) return '';
@@ -275,13 +279,16 @@ export default function CreateLotteryPage() {
         try {
             const expirationDate = Date.now() + (parseInt(duration) * 24 * 60 * 60 * 1000);
 
-            await createLottery({
+            const created = await createLottery({
                 nftId: selectedNFT.id,
+                nftType: selectedNFT.type,
                 expirationDate,
                 wonkaBarPrice: (parseFloat(wonkaBarPrice) * 1000000000).toString(), // Convert to MIST
                 maxSupply: maxSupply,
             });
 
+            setCreatedLottery(created);
+
             // Reset form
             setSelectedNFT(null);
             setWonkaBarPrice('0.1');
@@ -316,6 +323,30 @@ export default function CreateLotteryPage() {
                     <p className="text-xl text-white/70">Turn your NFT into instant liquidity while keeping upside potential</p>
                 </div>
 
+                {/* Created Lottery Banner */}
+                {createdLottery && (
+                    <div className="mb-8 rounded-xl border border-green-500/20 bg-green-500/10 p-4 flex items-center justify-between gap-4">
+                        <div className="flex items-center gap-3">
+                            <CheckCircle className="w-5 h-5 text-green-400" />
+                            <span className="text-green-200">
+                                {createdLottery.lotteryId
+                                    ? `Lottery #${createdLottery.lotteryId} is live!`
+                                    : 'Your lottery is live!'}
+                            </span>
+                        </div>
+                        <a
+                            href={createdLottery.lotteryObjectId
+                                ? explorerUrl('object', createdLottery.lotteryObjectId)
+                                : explorerUrl('txblock', createdLottery.digest)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="flex items-center gap-2 text-sm text-green-200/80 hover:text-green-100 transition-colors"
+                        >
+                            View on Explorer <ExternalLink className="w-3 h-3" />
+                        </a>
+                    </div>
+                )}
+
                 <div className="grid grid-cols-1 lg:grid-cols-2 gap-12">
                     {/* NFT Selection Panel */}
                     <div className="space-y-8">
@@ -461,7 +492,7 @@ export default function CreateLotteryPage() {
 
                                 <button
                                     onClick={handleCreateLottery}
-                                    disabled={!selectedNFT || isCreatingLottery}
+                                    disabled={!selectedNFT || isCreatingLottery || isPaused}
                                     className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-500 hover:to-pink-500 disabled:from-gray-600 disabled:to-gray-700 disabled:cursor-not-allowed text-white font-semibold py-4 px-6 rounded-xl transition-all duration-300 flex items-center justify-center space-x-3 shadow-xl"
                                 >
                                     {isCreatingLottery ? (
@@ -476,6 +507,9 @@ export default function CreateLotteryPage() {
                                         </>
                                     )}
                                 </button>
+                                {isPaused && (
+                                    <p className="text-sm text-yellow-400 text-center mt-3">{PROTOCOL_PAUSED_REASON}</p>
+                                )}
                             </div>
                         </div>
                     </div>
@@ -572,12 +606,12 @@ export default function CreateLotteryPage() {
                                                         <button
                                                             onClick={(e) => {
                                                                 e.stopPropagation();
-                                                                handleCollectionClick(nft.type);
+                                                                handleCollectionClick(getCollectionAddress(nft.type));
                                                             }}
                                                             className="text-xs text-blue-400 hover:text-blue-300 underline cursor-pointer flex items-center group w-full"
-                                                            title={`View collection on Sui Explorer: ${nft.type}`}
+                                                            title={`View collection on Sui Explorer: ${getCollectionAddress(nft.type)}`}
                                                         >
-                                                            <span className="truncate">{truncateAddress(nft.type)}</span>
+                                                            <span className="truncate">{truncateAddress(getCollectionAddress(nft.type))}</span>
                                                             <svg className="w-3 h-3 ml-1 opacity-0 group-hover:opacity-100 transition-opacity flex-shrink-0" fill="none" stroke="currentColor" viewBox="0 0 24 24">
                                                                 <path strokeLinecap="round" strokeLinejoin="round" strokeWidth={2} d="M10 6H6a2 2 0 00-2 2v10a2 2 0 002 2h10a2 2 0 002-2v-4M14 4h6m0 0v6m0-6L10 14" />
                                                             </svg>
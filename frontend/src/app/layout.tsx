@@ -1,6 +1,7 @@
 import { ConfigValidator } from '@/components/ConfigValidator'
 import { Footer } from '@/components/Footer'
 import { Navigation } from '@/components/Navigation'
+import { ProtocolPausedBanner } from '@/components/ProtocolPausedBanner'
 import { Providers } from '@/components/providers/Providers'
 import type { Metadata } from 'next'
 import { Inter } from 'next/font/google'
@@ -34,6 +35,7 @@ export default function RootLayout({
         <Providers>
           <ConfigValidator>
             <div className="min-h-screen flex flex-col">
+              <ProtocolPausedBanner />
               <Navigation />
               <main className="flex-1">
                 {children}
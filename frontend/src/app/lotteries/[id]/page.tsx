@@ -0,0 +1,496 @@
+'use client';
+
+import { WinOdds } from '@/components/WinOdds';
+import { DEFAULT_GAS_BUDGET } from '@/constants/contracts';
+import { useLotteryDetail } from '@/hooks/useLotteryDetail';
+import { getClaimEligibility, useMeltyFiActions, useUserBalances, useUserWonkaBars } from '@/hooks/useMeltyFi';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { PROTOCOL_PAUSED_REASON, useProtocolStatus } from '@/hooks/useProtocolStatus';
+import { getWonkaBarsCost } from '@/lib/meltyfi-tx';
+import { calculateAddressOdds, formatProbability } from '@/lib/odds';
+import { formatSuiAmount, shortenAddress } from '@/lib/utils';
+import { useCurrentAccount } from '@mysten/dapp-kit';
+import {
+    AlertTriangle,
+    ArrowLeft,
+    Clock,
+    ExternalLink,
+    Gift,
+    Shuffle,
+    Ticket,
+    Trophy,
+    Users
+} from 'lucide-react';
+import Image from 'next/image';
+import Link from 'next/link';
+import { useParams } from 'next/navigation';
+import { useEffect, useState } from 'react';
+
+function formatCountdown(milliseconds: number): string {
+    if (milliseconds <= 0) return 'Expired';
+
+    const totalSeconds = Math.floor(milliseconds / 1000);
+    const days = Math.floor(totalSeconds / 86400);
+    const hours = Math.floor((totalSeconds % 86400) / 3600);
+    const minutes = Math.floor((totalSeconds % 3600) / 60);
+    const seconds = totalSeconds % 60;
+
+    return days > 0
+        ? `${days}d ${hours}h ${minutes}m`
+        : `${hours}h ${minutes}m ${seconds}s`;
+}
+
+// Same backdrop as the lotteries and profile pages
+function PageBackground({ children }: { children: React.ReactNode }) {
+    return (
+        <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
+            {/* Background Elements */}
+            <div className="fixed inset-0 overflow-hidden pointer-events-none">
+                <div className="absolute -top-1/2 -left-1/2 w-full h-full bg-gradient-radial from-purple-500/10 via-transparent to-transparent" />
+                <div className="absolute -bottom-1/2 -right-1/2 w-full h-full bg-gradient-radial from-blue-500/10 via-transparent to-transparent" />
+            </div>
+
+            <div className="relative z-10 container mx-auto px-6 py-12">
+                {children}
+            </div>
+        </div>
+    );
+}
+
+export default function LotteryDetailPage() {
+    const { id } = useParams<{ id: string }>();
+    const currentAccount = useCurrentAccount();
+    const { explorerUrl } = useMeltyFiNetwork();
+    const { isPaused } = useProtocolStatus();
+    const {
+        lottery,
+        participants,
+        purchases,
+        isLoadingLottery,
+        lotteryError,
+        retryLottery,
+        notFound,
+        isLoadingPurchases,
+        fetchMorePurchases,
+        hasMorePurchases,
+        isFetchingMorePurchases
+    } = useLotteryDetail(id);
+    const { userWonkaBars } = useUserWonkaBars();
+    const { suiBalance } = useUserBalances();
+    const {
+        buyWonkaBars,
+        isBuyingWonkaBars,
+        resolveLottery,
+        isResolvingLottery,
+        claimRewards,
+        isClaimingRewards
+    } = useMeltyFiActions();
+
+    const [quantity, setQuantity] = useState(1);
+    const [now, setNow] = useState(() => Date.now());
+
+    // Tick the countdown every second
+    useEffect(() => {
+        const timer = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(timer);
+    }, []);
+
+    if (isLoadingLottery) {
+        return (
+            <PageBackground>
+                <div className="text-center">
+                    <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+                    <p className="text-white/60 mt-4">Loading lottery...</p>
+                </div>
+            </PageBackground>
+        );
+    }
+
+    if (lotteryError) {
+        return (
+            <PageBackground>
+                <div className="max-w-md mx-auto rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-12 text-center">
+                    <AlertTriangle className="w-16 h-16 text-red-400/60 mx-auto mb-4" />
+                    <h3 className="text-xl font-semibold text-white mb-2">Could Not Load Lottery</h3>
+                    <p className="text-white/60 mb-6">
+                        The lottery could not be read from the network. Check your connection and try again.
+                    </p>
+                    <button
+                        onClick={() => retryLottery()}
+                        className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-medium px-6 py-3 rounded-lg transition-colors"
+                    >
+                        Try Again
+                    </button>
+                </div>
+            </PageBackground>
+        );
+    }
+
+    if (notFound || !lottery) {
+        return (
+            <PageBackground>
+                <div className="max-w-md mx-auto rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-12 text-center">
+                    <Ticket className="w-16 h-16 text-white/40 mx-auto mb-4" />
+                    <h3 className="text-xl font-semibold text-white mb-2">Lottery Not Found</h3>
+                    <p className="text-white/60 mb-6">
+                        No MeltyFi lottery exists with this ID on the selected network.
+                    </p>
+                    <Link
+                        href="/lotteries"
+                        className="bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 text-white font-medium px-6 py-3 rounded-lg transition-colors inline-block"
+                    >
+                        Browse Lotteries
+                    </Link>
+                </div>
+            </PageBackground>
+        );
+    }
+
+    const sold = parseInt(lottery.soldCount);
+    const maxSupply = parseInt(lottery.maxSupply);
+    const remaining = maxSupply - sold;
+    const progress = maxSupply > 0 ? (sold / maxSupply) * 100 : 0;
+    const isExpired = now >= lottery.expirationDate;
+    const isSoldOut = sold >= maxSupply;
+    const isActive = lottery.state === 'ACTIVE';
+
+    const totalCost = getWonkaBarsCost(lottery.wonkaBarPrice, quantity);
+    const hasSufficientBalance = BigInt(suiBalance) >= totalCost + BigInt(DEFAULT_GAS_BUDGET);
+
+    const canBuy = !!currentAccount && isActive && !isExpired && !isSoldOut;
+    // resolve_lottery marks a lottery EXPIRED when neither condition holds, so only offer it once one does
+    const canResolve = !!currentAccount && isActive && (isExpired || isSoldOut);
+
+    const myWonkaBars = userWonkaBars.filter((wonkaBar) => wonkaBar.lotteryId === lottery.lotteryId);
+    const myTickets = participants.find((participant) => participant.address === currentAccount?.address)?.tickets;
+
+    return (
+        <PageBackground>
+            <Link href="/lotteries" className="inline-flex items-center gap-2 text-sm text-white/60 hover:text-white mb-8 transition-colors">
+                <ArrowLeft className="w-4 h-4" /> All Lotteries
+            </Link>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8 mb-12">
+                {/* Collateral NFT */}
+                <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm overflow-hidden">
+                    <div className="relative aspect-square bg-gradient-to-br from-purple-500/20 to-pink-500/20">
+                        {lottery.collateralNft.imageUrl !== '/placeholder-nft.png' ? (
+                            <Image
+                                src={lottery.collateralNft.imageUrl}
+                                alt={lottery.collateralNft.name}
+                                fill
+                                className="object-cover"
+                                unoptimized
+                            />
+                        ) : (
+                            <div className="w-full h-full flex items-center justify-center">
+                                <div className="w-24 h-24 bg-gradient-to-br from-purple-500 to-pink-500 rounded-lg flex items-center justify-center">
+                                    <Ticket className="w-12 h-12 text-white" />
+                                </div>
+                            </div>
+                        )}
+                    </div>
+                    <div className="p-6">
+                        <h2 className="text-xl font-semibold text-white mb-1">{lottery.collateralNft.name}</h2>
+                        {lottery.collateralNft.collection && (
+                            <p className="text-sm text-white/60 mb-3">{lottery.collateralNft.collection}</p>
+                        )}
+                        {lottery.collateralNft.type && (
+                            <p className="text-xs text-white/40 font-mono break-all">{lottery.collateralNft.type}</p>
+                        )}
+                    </div>
+                </div>
+
+                {/* Lottery Info and Actions */}
+                <div className="space-y-6">
+                    <div>
+                        <div className="flex items-center gap-3 mb-2">
+                            <h1 className="text-3xl font-bold text-white">Lottery #{lottery.lotteryId}</h1>
+                            <span className={`px-2 py-1 rounded-full text-xs font-medium ${isActive && !isExpired && !isSoldOut
+                                ? 'bg-green-500/20 text-green-400 border border-green-500/30'
+                                : lottery.state === 'CONCLUDED'
+                                    ? 'bg-blue-500/20 text-blue-400 border border-blue-500/30'
+                                    : isActive && isSoldOut
+                                        ? 'bg-yellow-500/20 text-yellow-400 border border-yellow-500/30'
+                                        : 'bg-red-500/20 text-red-400 border border-red-500/30'
+                                }`}>
+                                {isActive && isExpired ? 'AWAITING RESOLUTION' : isActive && isSoldOut ? 'SOLD OUT' : lottery.state}
+                            </span>
+                        </div>
+                        <p className="text-sm text-white/60">
+                            Created by{' '}
+                            <a
+                                href={explorerUrl('address', lottery.owner)}
+                                target="_blank"
+                                rel="noopener noreferrer"
+                                className="font-mono hover:text-white transition-colors"
+                            >
+                                {shortenAddress(lottery.owner)}
+                            </a>
+                        </p>
+                    </div>
+
+                    {/* Stats */}
+                    <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+                        <div className="grid grid-cols-2 gap-4 mb-6">
+                            <div>
+                                <span className="text-xs text-white/60">Price per WonkaBar</span>
+                                <p className="text-lg font-medium text-white">{formatSuiAmount(lottery.wonkaBarPrice)} SUI</p>
+                            </div>
+                            <div>
+                                <span className="text-xs text-white/60">Total Raised</span>
+                                <p className="text-lg font-medium text-white">{formatSuiAmount(lottery.totalRaised)} SUI</p>
+                            </div>
+                            <div>
+                                <span className="text-xs text-white/60">Participants</span>
+                                <p className="text-lg font-medium text-white">{participants.length}</p>
+                            </div>
+                            <div>
+                                <span className="text-xs text-white/60">{isActive ? 'Time Left' : 'Expired On'}</span>
+                                <p className="text-lg font-medium text-white flex items-center gap-2">
+                                    <Clock className="w-4 h-4 text-white/60" />
+                                    {isActive
+                                        ? formatCountdown(lottery.expirationDate - now)
+                                        : new Date(lottery.expirationDate).toLocaleDateString()}
+                                </p>
+                            </div>
+                        </div>
+
+                        <div className="flex justify-between text-xs text-white/60 mb-2">
+                            <span>{sold}/{maxSupply} WonkaBars sold</span>
+                            <span>{Math.round(progress)}%</span>
+                        </div>
+                        <div className="w-full bg-white/10 rounded-full h-2">
+                            <div
+                                className="bg-gradient-to-r from-purple-500 to-pink-500 h-2 rounded-full transition-all duration-300"
+                                style={{ width: `${progress}%` }}
+                            />
+                        </div>
+                    </div>
+
+                    {/* Resolution Outcome */}
+                    {lottery.state === 'CONCLUDED' && (
+                        <div className="rounded-lg border border-blue-500/20 bg-blue-500/10 p-6">
+                            <div className="flex items-center gap-2 mb-2">
+                                <Trophy className="w-5 h-5 text-yellow-400" />
+                                <h3 className="font-semibold text-white">
+                                    {lottery.winner === currentAccount?.address ? 'You won this lottery!' : 'Winner drawn'}
+                                </h3>
+                            </div>
+                            {lottery.winner && (
+                                <a
+                                    href={explorerUrl('address', lottery.winner)}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="text-sm text-white/80 font-mono hover:text-white transition-colors"
+                                >
+                                    {shortenAddress(lottery.winner)}
+                                </a>
+                            )}
+                        </div>
+                    )}
+                    {(lottery.state === 'CANCELLED' || lottery.state === 'EXPIRED') && (
+                        <div className="rounded-lg border border-red-500/20 bg-red-500/10 p-6">
+                            <h3 className="font-semibold text-white mb-1">
+                                {lottery.state === 'CANCELLED' ? 'Cancelled by the owner' : 'Expired without a winner'}
+                            </h3>
+                            <p className="text-sm text-white/60">
+                                Every WonkaBar holder can claim a full refund of the price they paid.
+                            </p>
+                        </div>
+                    )}
+
+                    {/* Buy */}
+                    {canBuy && (
+                        <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-6 space-y-3">
+                            <div className="flex items-center gap-2">
+                                <label htmlFor="quantity" className="text-sm text-white/80">
+                                    Quantity:
+                                </label>
+                                <input
+                                    id="quantity"
+                                    type="number"
+                                    min="1"
+                                    max={remaining}
+                                    value={quantity}
+                                    onChange={(e) => setQuantity(Math.min(remaining, Math.max(1, parseInt(e.target.value) || 1)))}
+                                    className="w-20 px-2 py-1 bg-white/10 border border-white/20 rounded text-white text-sm"
+                                />
+                                <span className="text-xs text-white/40">{remaining} left</span>
+                            </div>
+
+                            <div className="text-sm text-white/60">
+                                Total: {formatSuiAmount(totalCost)} SUI
+                            </div>
+
+                            <WinOdds lottery={lottery} quantity={quantity} buyer={currentAccount?.address} />
+
+                            {isPaused ? (
+                                <p className="text-sm text-yellow-400">{PROTOCOL_PAUSED_REASON}</p>
+                            ) : !hasSufficientBalance && (
+                                <p className="text-sm text-red-400">Insufficient SUI balance (including gas)</p>
+                            )}
+
+                            <button
+                                onClick={() => buyWonkaBars({ lotteryId: lottery.id, quantity, wonkaBarPrice: lottery.wonkaBarPrice }).catch(() => undefined)}
+                                disabled={isBuyingWonkaBars || !hasSufficientBalance || isPaused}
+                                className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:from-gray-600 disabled:to-gray-600 text-white font-medium py-2 px-4 rounded-md transition-colors"
+                            >
+                                {isBuyingWonkaBars ? 'Purchasing...' : `Buy ${quantity} WonkaBar${quantity > 1 ? 's' : ''}`}
+                            </button>
+                        </div>
+                    )}
+
+                    {/* Resolve */}
+                    {canResolve && (
+                        <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+                            <p className="text-sm text-white/60 mb-3">
+                                {isSoldOut ? 'All WonkaBars are sold.' : 'This lottery has expired.'} Anyone can draw the winner now.
+                            </p>
+                            {isPaused && (
+                                <p className="text-sm text-yellow-400 mb-3">{PROTOCOL_PAUSED_REASON}</p>
+                            )}
+                            <button
+                                onClick={() => resolveLottery({ lotteryId: lottery.id }).catch(() => undefined)}
+                                disabled={isResolvingLottery || isPaused}
+                                className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:from-gray-600 disabled:to-gray-600 text-white font-medium py-2 px-4 rounded-md transition-colors"
+                            >
+                                <Shuffle className="w-4 h-4" />
+                                {isResolvingLottery ? 'Drawing...' : 'Draw Winner'}
+                            </button>
+                        </div>
+                    )}
+
+                    {/* My WonkaBars */}
+                    {currentAccount && myWonkaBars.length > 0 && (
+                        <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-6">
+                            <h3 className="font-semibold text-white mb-3">
+                                Your WonkaBars{myTickets && ` · ${myTickets} ticket${myTickets === '1' ? '' : 's'}`}
+                            </h3>
+                            <div className="space-y-3">
+                                {myWonkaBars.map((wonkaBar) => {
+                                    const eligibility = getClaimEligibility(lottery, wonkaBar, currentAccount.address);
+                                    return (
+                                        <div key={wonkaBar.id} className="flex items-center justify-between gap-4">
+                                            <span className="text-sm text-white/80 flex items-center gap-2">
+                                                <Ticket className="w-4 h-4 text-pink-400" />
+                                                {wonkaBar.ticketCount} × WonkaBar
+                                            </span>
+                                            {eligibility.kind === 'none' ? (
+                                                <span className="text-xs text-white/60">{eligibility.reason}</span>
+                                            ) : (
+                                                <button
+                                                    onClick={() => claimRewards({ lottery, wonkaBar }).catch(() => undefined)}
+                                                    disabled={isClaimingRewards}
+                                                    className="flex items-center gap-2 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:from-gray-600 disabled:to-gray-600 text-white text-sm font-medium py-1.5 px-3 rounded-md transition-colors"
+                                                >
+                                                    <Gift className="w-4 h-4" />
+                                                    {eligibility.kind === 'nft'
+                                                        ? 'Claim NFT'
+                                                        : `Claim ${formatSuiAmount(eligibility.amount)} SUI`}
+                                                </button>
+                                            )}
+                                        </div>
+                                    );
+                                })}
+                            </div>
+                        </div>
+                    )}
+
+                    <a
+                        href={explorerUrl('object', lottery.id)}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        className="flex items-center gap-2 text-sm text-white/60 hover:text-white transition-colors"
+                    >
+                        View on Explorer <ExternalLink className="w-3 h-3" />
+                    </a>
+                </div>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-2 gap-8">
+                {/* Participants */}
+                <div>
+                    <h2 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+                        <Users className="w-6 h-6" /> Participants
+                    </h2>
+                    {participants.length === 0 ? (
+                        <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-8 text-center">
+                            <p className="text-white/60">No WonkaBars sold yet.</p>
+                        </div>
+                    ) : (
+                        <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm divide-y divide-white/10">
+                            {participants.map((participant) => (
+                                <div key={participant.address} className="flex items-center justify-between px-4 py-3 text-sm">
+                                    <a
+                                        href={explorerUrl('address', participant.address)}
+                                        target="_blank"
+                                        rel="noopener noreferrer"
+                                        className={`font-mono hover:text-white transition-colors ${participant.address === currentAccount?.address ? 'text-pink-300' : 'text-white/80'}`}
+                                    >
+                                        {shortenAddress(participant.address)}
+                                        {participant.address === lottery.winner && <Trophy className="inline w-4 h-4 text-yellow-400 ml-2" />}
+                                    </a>
+                                    <span className="text-white/60">
+                                        {participant.tickets} ticket{participant.tickets === '1' ? '' : 's'}
+                                        {isActive && ` · ${formatProbability(calculateAddressOdds(participants.length))} to win`}
+                                    </span>
+                                </div>
+                            ))}
+                        </div>
+                    )}
+                </div>
+
+                {/* Purchase History */}
+                <div>
+                    <h2 className="text-2xl font-bold text-white mb-6 flex items-center gap-2">
+                        <Ticket className="w-6 h-6" /> Purchase History
+                    </h2>
+                    {isLoadingPurchases ? (
+                        <div className="text-center py-8">
+                            <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+                        </div>
+                    ) : purchases.length === 0 ? (
+                        <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-8 text-center">
+                            <p className="text-white/60">No purchases yet.</p>
+                        </div>
+                    ) : (
+                        <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm divide-y divide-white/10">
+                            {purchases.map((purchase, index) => (
+                                <a
+                                    key={`${purchase.digest}-${index}`}
+                                    href={explorerUrl('txblock', purchase.digest)}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="flex items-center justify-between px-4 py-3 text-sm hover:bg-white/5 transition-colors"
+                                >
+                                    <span>
+                                        <span className="font-mono text-white/80">{shortenAddress(purchase.buyer)}</span>
+                                        <span className="text-white/60"> bought {purchase.quantity}</span>
+                                    </span>
+                                    <span className="text-right">
+                                        <span className="block text-white">{formatSuiAmount(purchase.totalCost)} SUI</span>
+                                        <span className="block text-xs text-white/40">
+                                            {purchase.timestamp ? new Date(purchase.timestamp).toLocaleString() : ''}
+                                        </span>
+                                    </span>
+                                </a>
+                            ))}
+                        </div>
+                    )}
+                    {hasMorePurchases && (
+                        <div className="mt-4 text-center">
+                            <button
+                                onClick={() => fetchMorePurchases()}
+                                disabled={isFetchingMorePurchases}
+                                className="border border-white/20 hover:bg-white/10 disabled:opacity-50 text-white text-sm font-medium px-4 py-2 rounded-md transition-colors"
+                            >
+                                {isFetchingMorePurchases ? 'Loading...' : 'Load More'}
+                            </button>
+                        </div>
+                    )}
+                </div>
+            </div>
+        </PageBackground>
+    );
+}
@@ -1,7 +1,12 @@
 'use client';
 
-import { getExplorerUrl } from '@/constants/contracts';
-import { useMeltyFi } from '@/hooks/useMeltyFi';
+import { WinOdds } from '@/components/WinOdds';
+import { DEFAULT_GAS_BUDGET } from '@/constants/contracts';
+import { useMeltyFi, type Lottery } from '@/hooks/useMeltyFi';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { PROTOCOL_PAUSED_REASON, useProtocolStatus } from '@/hooks/useProtocolStatus';
+import { getWonkaBarsCost } from '@/lib/meltyfi-tx';
+import { formatSuiAmount } from '@/lib/utils';
 import { useCurrentAccount } from '@mysten/dapp-kit';
 import {
     AlertCircle,
@@ -10,21 +15,26 @@ import {
     Ticket
 } from 'lucide-react';
 import Image from 'next/image';
+import Link from 'next/link';
 import { useState } from 'react';
 
 interface LotteryCardProps {
-    lottery: any;
-    onBuyWonkaBars: (lotteryId: string, quantity: number, totalCost: string) => void;
+    lottery: Lottery;
+    onBuyWonkaBars: (lottery: Lottery, quantity: number) => void;
     isBuying: boolean;
     isConnected: boolean;
+    isPaused: boolean;
+    suiBalance: string;
+    buyer?: string;
 }
 
-function LotteryCard({ lottery, onBuyWonkaBars, isBuying, isConnected }: LotteryCardProps) {
+function LotteryCard({ lottery, onBuyWonkaBars, isBuying, isConnected, isPaused, suiBalance, buyer }: LotteryCardProps) {
+    const { explorerUrl } = useMeltyFiNetwork();
     const [quantity, setQuantity] = useState(1);
 
     const wonkaBarPrice = parseInt(lottery.wonkaBarPrice);
-    const totalCost = (wonkaBarPrice * quantity).toString();
-    const formatSuiAmount = (amount: string | number) => (Number(amount) / 1_000_000_000).toFixed(4);
+    const totalCost = getWonkaBarsCost(lottery.wonkaBarPrice, quantity);
+    const hasSufficientBalance = BigInt(suiBalance) >= totalCost + BigInt(DEFAULT_GAS_BUDGET);
 
     const isExpired = Date.now() > lottery.expirationDate;
     const isSoldOut = parseInt(lottery.soldCount) >= parseInt(lottery.maxSupply);
@@ -44,6 +54,7 @@ function LotteryCard({ lottery, onBuyWonkaBars, isBuying, isConnected }: Lottery
                         alt={lottery.collateralNft.name}
                         fill
                         className="object-cover"
+                        unoptimized
                     />
                 ) : (
                     <div className="w-full h-full flex items-center justify-center">
@@ -142,9 +153,17 @@ function LotteryCard({ lottery, onBuyWonkaBars, isBuying, isConnected }: Lottery
                             Total: {formatSuiAmount(totalCost)} SUI
                         </div>
 
+                        <WinOdds lottery={lottery} quantity={quantity} buyer={buyer} />
+
+                        {isPaused ? (
+                            <p className="text-sm text-yellow-400">{PROTOCOL_PAUSED_REASON}</p>
+                        ) : !hasSufficientBalance && (
+                            <p className="text-sm text-red-400">Insufficient SUI balance (including gas)</p>
+                        )}
+
                         <button
-                            onClick={() => onBuyWonkaBars(lottery.id, quantity, totalCost)}
-                            disabled={isBuying}
+                            onClick={() => onBuyWonkaBars(lottery, quantity)}
+                            disabled={isBuying || !hasSufficientBalance || isPaused}
                             className="w-full bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:from-gray-600 disabled:to-gray-600 text-white font-medium py-2 px-4 rounded-md transition-colors"
                         >
                             {isBuying ? 'Purchasing...' : `Buy ${quantity} WonkaBar${quantity > 1 ? 's' : ''}`}
@@ -164,13 +183,19 @@ function LotteryCard({ lottery, onBuyWonkaBars, isBuying, isConnected }: Lottery
                     </div>
                 )}
 
-                {/* Explorer Link */}
-                <div className="mt-3 pt-3 border-t border-white/10">
+                {/* Detail and Explorer Links */}
+                <div className="mt-3 pt-3 border-t border-white/10 flex items-center justify-between">
+                    <Link
+                        href={`/lotteries/${lottery.id}`}
+                        className="text-sm text-white/80 hover:text-white font-medium transition-colors"
+                    >
+                        View Details
+                    </Link>
                     <a
-                        href={getExplorerUrl('object', lottery.id)}
+                        href={explorerUrl('object', lottery.id)}
                         target="_blank"
                         rel="noopener noreferrer"
-                        className="flex items-center justify-center gap-2 text-sm text-white/60 hover:text-white transition-colors"
+                        className="flex items-center gap-2 text-sm text-white/60 hover:text-white transition-colors"
                     >
                         View on Explorer <ExternalLink className="w-3 h-3" />
                     </a>
@@ -184,18 +209,23 @@ export default function LotteriesPage() {
     const currentAccount = useCurrentAccount();
     const {
         lotteries,
+        userStats,
         buyWonkaBars,
         isBuyingWonkaBars,
-        isLoadingLotteries
+        isLoadingLotteries,
+        fetchMoreLotteries,
+        hasMoreLotteries,
+        isFetchingMoreLotteries
     } = useMeltyFi();
+    const { isPaused } = useProtocolStatus();
 
     const [searchQuery, setSearchQuery] = useState('');
     const [filterState, setFilterState] = useState<'all' | 'active' | 'ending-soon'>('all');
     const [sortBy, setSortBy] = useState<'newest' | 'ending-soon' | 'price-low' | 'price-high'>('newest');
 
-    const handleBuyWonkaBars = async (lotteryId: string, quantity: number, totalCost: string) => {
+    const handleBuyWonkaBars = async (lottery: Lottery, quantity: number) => {
         try {
-            await buyWonkaBars({ lotteryId, quantity, payment: totalCost });
+            await buyWonkaBars({ lotteryId: lottery.id, quantity, wonkaBarPrice: lottery.wonkaBarPrice });
         } catch (error) {
             console.error('Failed to buy WonkaBars:', error);
         }
@@ -354,11 +384,27 @@ export default function LotteriesPage() {
                                 onBuyWonkaBars={handleBuyWonkaBars}
                                 isBuying={isBuyingWonkaBars}
                                 isConnected={!!currentAccount}
+                                isPaused={isPaused}
+                                suiBalance={userStats?.suiBalance || '0'}
+                                buyer={currentAccount?.address}
                             />
                         ))}
                     </div>
                 )}
 
+                {/* Load More */}
+                {!isLoadingLotteries && hasMoreLotteries && (
+                    <div className="mt-8 text-center">
+                        <button
+                            onClick={() => fetchMoreLotteries()}
+                            disabled={isFetchingMoreLotteries}
+                            className="border border-white/20 hover:bg-white/10 disabled:opacity-50 text-white font-medium px-6 py-3 rounded-lg transition-colors"
+                        >
+                            {isFetchingMoreLotteries ? 'Loading...' : 'Load More Lotteries'}
+                        </button>
+                    </div>
+                )}
+
                 {/* Connection Warning */}
                 {!currentAccount && !isLoadingLotteries && (
                     <div className="mt-8 rounded-lg border border-yellow-500/20 bg-yellow-500/10 p-4">
@@ -1,6 +1,7 @@
 'use client';
 
 import { useMeltyFi } from '@/hooks/useMeltyFi';
+import { useProtocolStats } from '@/hooks/useProtocolStats';
 import { formatSuiAmount, formatTimeLeft } from '@/lib/utils';
 import { useCurrentAccount } from '@mysten/dapp-kit';
 import {
@@ -17,14 +18,14 @@ import {
 import Link from 'next/link';
 
 function StatsSection() {
-  const { lotteries, isLoadingLotteries } = useMeltyFi();
-
-  const activeLotteries = lotteries.filter(l => l.state === 'ACTIVE' && Date.now() < l.expirationDate);
-  const totalValue = lotteries.reduce((sum, lottery) => {
-    return sum + (parseInt(lottery.wonkaBarPrice) * parseInt(lottery.maxSupply));
-  }, 0);
-
-  const totalParticipants = lotteries.reduce((sum, lottery) => sum + lottery.participants, 0);
+  const {
+    totalLotteries,
+    activeLotteries,
+    volume,
+    uniqueBuyers,
+    isVolumePartial,
+    isLoadingStats
+  } = useProtocolStats();
 
   return (
     <div className="grid grid-cols-1 md:grid-cols-3 gap-8 mb-16">
@@ -33,9 +34,12 @@ function StatsSection() {
           <Trophy className="w-8 h-8 text-white" />
         </div>
         <div className="text-3xl font-bold text-white mb-2">
-          {isLoadingLotteries ? '...' : activeLotteries.length}
+          {isLoadingStats ? '...' : activeLotteries}
         </div>
         <div className="text-white/60">Active Lotteries</div>
+        {!isLoadingStats && (
+          <div className="text-xs text-white/40 mt-1">{totalLotteries} created in total</div>
+        )}
       </div>
 
       <div className="text-center">
@@ -43,9 +47,9 @@ function StatsSection() {
           <Coins className="w-8 h-8 text-white" />
         </div>
         <div className="text-3xl font-bold text-white mb-2">
-          {isLoadingLotteries ? '...' : `${formatSuiAmount(totalValue, 0)}`}
+          {isLoadingStats ? '...' : `${formatSuiAmount(volume, 2)}${isVolumePartial ? '+' : ''}`}
         </div>
-        <div className="text-white/60">Total Value (SUI)</div>
+        <div className="text-white/60">Total Volume (SUI)</div>
       </div>
 
       <div className="text-center">
@@ -53,7 +57,7 @@ function StatsSection() {
           <Users className="w-8 h-8 text-white" />
         </div>
         <div className="text-3xl font-bold text-white mb-2">
-          {isLoadingLotteries ? '...' : totalParticipants}
+          {isLoadingStats ? '...' : `${uniqueBuyers}${isVolumePartial ? '+' : ''}`}
         </div>
         <div className="text-white/60">Total Participants</div>
       </div>
@@ -260,7 +264,7 @@ export default function HomePage() {
               </div>
               <h3 className="text-xl font-semibold text-white mb-4">2. Buy WonkaBars</h3>
               <p className="text-white/60">
-                Others purchase lottery tickets (WonkaBars) for a chance to win your NFT.
+                Others purchase lottery tickets (WonkaBars). Every participating address has an equal chance to win your NFT.
               </p>
             </div>
 
@@ -1,7 +1,8 @@
 'use client';
 
-import { getExplorerUrl } from '@/constants/contracts';
-import { useMeltyFi } from '@/hooks/useMeltyFi';
+import { getClaimEligibility, useMeltyFi, type Lottery } from '@/hooks/useMeltyFi';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { PROTOCOL_PAUSED_REASON, useProtocolStatus } from '@/hooks/useProtocolStatus';
 import { shortenAddress } from '@/lib/utils';
 import { useCurrentAccount, useSuiClientQuery } from '@mysten/dapp-kit';
 import {
@@ -11,6 +12,7 @@ import {
     Coins,
     Copy,
     ExternalLink,
+    Gift,
     Ticket,
     Trophy,
     User,
@@ -31,6 +33,7 @@ function formatChocoChips(amount: string) {
 
 export default function ProfilePage() {
     const currentAccount = useCurrentAccount();
+    const { explorerUrl } = useMeltyFiNetwork();
     const { data: balance } = useSuiClientQuery(
         'getBalance',
         { owner: currentAccount?.address || '' },
@@ -38,13 +41,31 @@ export default function ProfilePage() {
     );
     const {
         userStats,
-        lotteries,
+        managedLotteries,
+        userLotteries,
         userWonkaBars,
-        isLoadingLotteries,
-        isLoadingWonkaBars
+        isLoadingReceipts,
+        isLoadingWonkaBars,
+        claimRewards,
+        isClaimingRewards,
+        cancelLottery,
+        isCancellingLottery
     } = useMeltyFi();
+    const { isPaused } = useProtocolStatus();
 
     const [copiedAddress, setCopiedAddress] = useState(false);
+    const [lotteryToCancel, setLotteryToCancel] = useState<Lottery | null>(null);
+
+    const handleCancelLottery = async () => {
+        if (!lotteryToCancel) return;
+
+        try {
+            await cancelLottery({ lottery: lotteryToCancel });
+            setLotteryToCancel(null);
+        } catch (error) {
+            console.error('Failed to cancel lottery:', error);
+        }
+    };
 
     const copyAddress = async () => {
         if (currentAccount?.address) {
@@ -71,10 +92,6 @@ export default function ProfilePage() {
         );
     }
 
-    // Get user's active lotteries
-    const userLotteries = lotteries.filter(lottery => lottery.owner === currentAccount.address);
-    const activeLotteries = userLotteries.filter(lottery => lottery.state === 'ACTIVE');
-
     return (
         <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900">
             {/* Background Elements */}
@@ -109,7 +126,7 @@ export default function ProfilePage() {
                                         )}
                                     </button>
                                     <a
-                                        href={getExplorerUrl('address', currentAccount.address)}
+                                        href={explorerUrl('address', currentAccount.address)}
                                         target="_blank"
                                         rel="noopener noreferrer"
                                         className="h-6 w-6 p-0 hover:bg-white/10 rounded text-white/60 hover:text-white transition-colors"
@@ -201,7 +218,7 @@ export default function ProfilePage() {
                 <div className="mb-12">
                     <div className="flex items-center justify-between mb-6">
                         <h2 className="text-2xl font-bold text-white">My Lotteries</h2>
-                        {userLotteries.length > 0 && (
+                        {managedLotteries.length > 0 && (
                             <Link
                                 href="/create"
                                 className="text-purple-400 hover:text-purple-300 text-sm font-medium"
@@ -211,12 +228,12 @@ export default function ProfilePage() {
                         )}
                     </div>
 
-                    {isLoadingLotteries ? (
+                    {isLoadingReceipts ? (
                         <div className="text-center py-12">
                             <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
                             <p className="text-white/60 mt-4">Loading your lotteries...</p>
                         </div>
-                    ) : userLotteries.length === 0 ? (
+                    ) : managedLotteries.length === 0 ? (
                         <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-12 text-center">
                             <Trophy className="w-16 h-16 text-white/40 mx-auto mb-4" />
                             <h3 className="text-xl font-semibold text-white mb-2">No Lotteries Yet</h3>
@@ -232,7 +249,7 @@ export default function ProfilePage() {
                         </div>
                     ) : (
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-                            {userLotteries.map((lottery) => (
+                            {managedLotteries.map((lottery) => (
                                 <div
                                     key={lottery.id}
                                     className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-6 hover:bg-white/10 transition-colors"
@@ -272,6 +289,21 @@ export default function ProfilePage() {
                                             }
                                         </span>
                                     </div>
+
+                                    {lottery.state === 'ACTIVE' && lottery.canCancel && (
+                                        <>
+                                            <button
+                                                onClick={() => setLotteryToCancel(lottery)}
+                                                disabled={isPaused}
+                                                className="mt-4 w-full border border-red-500/30 bg-red-500/10 hover:bg-red-500/20 disabled:opacity-50 disabled:cursor-not-allowed text-red-400 text-sm font-medium py-2 px-3 rounded-md transition-colors"
+                                            >
+                                                Cancel & Repay
+                                            </button>
+                                            {isPaused && (
+                                                <p className="mt-2 text-xs text-yellow-400">{PROTOCOL_PAUSED_REASON}</p>
+                                            )}
+                                        </>
+                                    )}
                                 </div>
                             ))}
                         </div>
@@ -287,7 +319,7 @@ export default function ProfilePage() {
                                 href="/lotteries"
                                 className="text-purple-400 hover:text-purple-300 text-sm font-medium"
                             >
-                                Buy More Tickets →
+                                Browse Lotteries →
                             </Link>
                         )}
                     </div>
@@ -314,7 +346,10 @@ export default function ProfilePage() {
                     ) : (
                         <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-4 gap-6">
                             {userWonkaBars.map((wonkaBar) => {
-                                const associatedLottery = lotteries.find(l => l.id === wonkaBar.lotteryId);
+                                const associatedLottery = userLotteries.find(l => l.lotteryId === wonkaBar.lotteryId);
+                                const eligibility = associatedLottery
+                                    ? getClaimEligibility(associatedLottery, wonkaBar, currentAccount.address)
+                                    : null;
                                 return (
                                     <div
                                         key={wonkaBar.id}
@@ -346,6 +381,25 @@ export default function ProfilePage() {
                                                 {associatedLottery.state}
                                             </div>
                                         )}
+
+                                        {associatedLottery && eligibility && (
+                                            <div className="mt-3 pt-3 border-t border-white/10">
+                                                {eligibility.kind === 'none' ? (
+                                                    <p className="text-xs text-white/60">{eligibility.reason}</p>
+                                                ) : (
+                                                    <button
+                                                        onClick={() => claimRewards({ lottery: associatedLottery, wonkaBar })}
+                                                        disabled={isClaimingRewards}
+                                                        className="w-full flex items-center justify-center gap-2 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:from-gray-600 disabled:to-gray-600 text-white text-sm font-medium py-2 px-3 rounded-md transition-colors"
+                                                    >
+                                                        <Gift className="w-4 h-4" />
+                                                        {eligibility.kind === 'nft'
+                                                            ? 'Claim NFT'
+                                                            : `Claim ${formatSuiAmount(eligibility.amount)} SUI Refund`}
+                                                    </button>
+                                                )}
+                                            </div>
+                                        )}
                                     </div>
                                 );
                             })}
@@ -353,6 +407,55 @@ export default function ProfilePage() {
                     )}
                 </div>
 
+                {/* Cancel Lottery Dialog */}
+                {lotteryToCancel && (
+                    <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+                        <div className="bg-gradient-to-br from-gray-900 via-purple-900 to-violet-900 rounded-2xl border border-white/20 max-w-md w-full p-6">
+                            <h2 className="text-2xl font-bold text-white mb-2">Cancel Lottery #{lotteryToCancel.lotteryId}?</h2>
+                            <p className="text-white/60 mb-6">
+                                Cancelling ends the lottery early. You must repay everything raised so far so that
+                                every participant can claim a full refund.
+                            </p>
+
+                            <div className="rounded-lg border border-white/10 bg-black/20 p-4 mb-6 space-y-2 text-sm">
+                                <div className="flex justify-between">
+                                    <span className="text-white/60">WonkaBars sold</span>
+                                    <span className="text-white">{lotteryToCancel.soldCount}/{lotteryToCancel.maxSupply}</span>
+                                </div>
+                                <div className="flex justify-between">
+                                    <span className="text-white/60">Participants</span>
+                                    <span className="text-white">{lotteryToCancel.participants}</span>
+                                </div>
+                                <div className="flex justify-between font-medium">
+                                    <span className="text-white/80">Repayment required</span>
+                                    <span className="text-red-300">{formatSuiAmount(lotteryToCancel.totalRaised)} SUI</span>
+                                </div>
+                            </div>
+
+                            <p className="text-xs text-white/40 mb-6">
+                                The exact amount is re-read from the lottery when you confirm, in case more WonkaBars were sold meanwhile.
+                            </p>
+
+                            <div className="flex gap-3">
+                                <button
+                                    onClick={() => setLotteryToCancel(null)}
+                                    disabled={isCancellingLottery}
+                                    className="flex-1 border border-white/20 hover:bg-white/10 text-white font-medium py-2 px-4 rounded-md transition-colors"
+                                >
+                                    Keep Lottery
+                                </button>
+                                <button
+                                    onClick={handleCancelLottery}
+                                    disabled={isCancellingLottery || isPaused}
+                                    className="flex-1 bg-red-600 hover:bg-red-700 disabled:bg-gray-600 text-white font-medium py-2 px-4 rounded-md transition-colors"
+                                >
+                                    {isCancellingLottery ? 'Cancelling...' : 'Repay & Cancel'}
+                                </button>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
                 {/* Low Balance Warning */}
                 {balance && Number(balance.totalBalance) < 100_000_000 && (
                     <div className="mt-8 rounded-lg border border-yellow-500/20 bg-yellow-500/10 p-4">
@@ -0,0 +1,200 @@
+'use client';
+
+import { ACTIVITY_EVENT_TYPES, useActivityFeed, type ActivityItem } from '@/hooks/useActivityFeed';
+import { useMeltyFi } from '@/hooks/useMeltyFi';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import type { MeltyFiEvent, MeltyFiEventType } from '@/lib/meltyfi-events';
+import { formatSuiAmount, formatTimeAgo, shortenAddress } from '@/lib/utils';
+import {
+    Activity,
+    ExternalLink,
+    Gift,
+    Plus,
+    Settings,
+    Ticket,
+    Trophy,
+    type LucideIcon
+} from 'lucide-react';
+import Link from 'next/link';
+import { useMemo, useState } from 'react';
+
+const FILTER_LABELS: Record<MeltyFiEventType, string> = {
+    LotteryCreated: 'Created',
+    WonkaBarsPurchased: 'Purchases',
+    LotteryResolved: 'Resolutions',
+    FundsWithdrawn: 'Withdrawals',
+    ProtocolUpdated: 'Protocol',
+};
+
+const EVENT_ICONS: Record<MeltyFiEventType, { icon: LucideIcon; color: string }> = {
+    LotteryCreated: { icon: Plus, color: 'from-purple-500 to-pink-500' },
+    WonkaBarsPurchased: { icon: Ticket, color: 'from-blue-500 to-cyan-500' },
+    LotteryResolved: { icon: Trophy, color: 'from-yellow-500 to-orange-500' },
+    FundsWithdrawn: { icon: Gift, color: 'from-green-500 to-emerald-500' },
+    ProtocolUpdated: { icon: Settings, color: 'from-indigo-500 to-purple-500' },
+};
+
+// The address an event is attributed to, and what it did
+function describeEvent(event: MeltyFiEvent): { actor?: string; action: string; amount?: string } {
+    switch (event.type) {
+        case 'LotteryCreated':
+            return {
+                actor: event.owner,
+                action: `created a lottery of ${event.maxSupply} WonkaBars at ${formatSuiAmount(event.wonkaPrice)} SUI each`,
+            };
+        case 'WonkaBarsPurchased':
+            return {
+                actor: event.buyer,
+                action: `bought ${event.quantity} WonkaBar${event.quantity === '1' ? '' : 's'}`,
+                amount: event.totalCost,
+            };
+        case 'LotteryResolved':
+            if (event.state === 1) {
+                return { actor: event.winner, action: 'won the draw', amount: event.totalRaised };
+            }
+            return {
+                action: event.state === 2 ? 'Lottery cancelled, holders can claim refunds' : 'Lottery expired without a winner, holders can claim refunds',
+                amount: event.totalRaised,
+            };
+        case 'FundsWithdrawn':
+            if (event.withdrawalType === 'nft_claim') {
+                return { actor: event.recipient, action: 'claimed the collateral NFT' };
+            }
+            if (event.withdrawalType === 'protocol_fees') {
+                return { actor: event.recipient, action: 'withdrew protocol fees', amount: event.amount };
+            }
+            return { actor: event.recipient, action: 'claimed a refund', amount: event.amount };
+        case 'ProtocolUpdated':
+            if (event.action === 'pause_updated') {
+                return { actor: event.admin, action: event.data === 'true' ? 'paused the protocol' : 'unpaused the protocol' };
+            }
+            if (event.action === 'protocol_initialized') {
+                return { actor: event.admin, action: 'deployed the protocol' };
+            }
+            return { actor: event.admin, action: `${event.action}: ${event.data}` };
+    }
+}
+
+function ActivityRow({ item, lotteryObjectIds }: { item: ActivityItem; lotteryObjectIds: Map<string, string> }) {
+    const { explorerUrl } = useMeltyFiNetwork();
+    const { actor, action, amount } = describeEvent(item.event);
+    const { icon: Icon, color } = EVENT_ICONS[item.event.type];
+
+    // Protocol fee withdrawals carry lottery id 0
+    const lotteryId = 'lotteryId' in item.event && item.event.lotteryId !== '0' ? item.event.lotteryId : undefined;
+    const lotteryObjectId = lotteryId ? lotteryObjectIds.get(lotteryId) : undefined;
+
+    return (
+        <div className="flex items-start gap-4 px-4 py-4">
+            <div className={`w-9 h-9 shrink-0 bg-gradient-to-br ${color} rounded-lg flex items-center justify-center`}>
+                <Icon className="w-4 h-4 text-white" />
+            </div>
+
+            <div className="flex-1 min-w-0">
+                <p className="text-sm text-white/80">
+                    {actor && (
+                        <a
+                            href={explorerUrl('address', actor)}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                            className="font-mono text-white hover:text-pink-300 transition-colors"
+                        >
+                            {shortenAddress(actor)}
+                        </a>
+                    )}
+                    {actor ? ` ${action}` : action}
+                </p>
+                <div className="flex items-center gap-3 mt-1 text-xs text-white/40">
+                    {lotteryId && (lotteryObjectId ? (
+                        <Link href={`/lotteries/${lotteryObjectId}`} className="hover:text-white transition-colors">
+                            Lottery #{lotteryId}
+                        </Link>
+                    ) : (
+                        <span>Lottery #{lotteryId}</span>
+                    ))}
+                    <span>{item.timestamp ? formatTimeAgo(item.timestamp) : ''}</span>
+                </div>
+            </div>
+
+            <div className="flex flex-col items-end gap-1 shrink-0">
+                {amount && <span className="text-sm font-medium text-white">{formatSuiAmount(amount)} SUI</span>}
+                <a
+                    href={explorerUrl('txblock', item.digest)}
+                    target="_blank"
+                    rel="noopener noreferrer"
+                    className="flex items-center gap-1 text-xs text-white/40 hover:text-white transition-colors"
+                >
+                    Tx <ExternalLink className="w-3 h-3" />
+                </a>
+            </div>
+        </div>
+    );
+}
+
+export function ActivityFeed() {
+    const [filter, setFilter] = useState<MeltyFiEventType | 'all'>('all');
+    const { lotteries } = useMeltyFi();
+    const {
+        activity,
+        isLoadingActivity,
+        fetchMoreActivity,
+        hasMoreActivity,
+        isFetchingMoreActivity
+    } = useActivityFeed(filter);
+
+    // Events reference lotteries by their numeric id, detail pages by object id
+    const lotteryObjectIds = useMemo(
+        () => new Map(lotteries.map((lottery) => [lottery.lotteryId, lottery.id])),
+        [lotteries]
+    );
+
+    return (
+        <div>
+            {/* Filters */}
+            <div className="flex flex-wrap gap-2 mb-6">
+                {(['all', ...ACTIVITY_EVENT_TYPES] as const).map((type) => (
+                    <button
+                        key={type}
+                        onClick={() => setFilter(type)}
+                        className={`px-4 py-2 rounded-lg text-sm font-medium transition-colors ${filter === type
+                            ? 'bg-gradient-to-r from-purple-600 to-pink-600 text-white'
+                            : 'border border-white/20 text-white/80 hover:bg-white/10'
+                            }`}
+                    >
+                        {type === 'all' ? 'All' : FILTER_LABELS[type]}
+                    </button>
+                ))}
+            </div>
+
+            {isLoadingActivity ? (
+                <div className="text-center py-12">
+                    <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+                    <p className="text-white/60 mt-4">Loading activity...</p>
+                </div>
+            ) : activity.length === 0 ? (
+                <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm p-12 text-center">
+                    <Activity className="w-16 h-16 text-white/40 mx-auto mb-4" />
+                    <p className="text-white/60">No activity yet.</p>
+                </div>
+            ) : (
+                <div className="rounded-lg border border-white/10 bg-white/5 backdrop-blur-sm divide-y divide-white/10">
+                    {activity.map((item) => (
+                        <ActivityRow key={item.id} item={item} lotteryObjectIds={lotteryObjectIds} />
+                    ))}
+                </div>
+            )}
+
+            {hasMoreActivity && (
+                <div className="mt-6 text-center">
+                    <button
+                        onClick={() => fetchMoreActivity()}
+                        disabled={isFetchingMoreActivity}
+                        className="border border-white/20 hover:bg-white/10 disabled:opacity-50 text-white text-sm font-medium px-4 py-2 rounded-md transition-colors"
+                    >
+                        {isFetchingMoreActivity ? 'Loading...' : 'Load More'}
+                    </button>
+                </div>
+            )}
+        </div>
+    );
+}
@@ -1,54 +1,153 @@
 'use client';
 
-import { CURRENT_CONFIG, isContractsConfigured } from '@/constants/contracts';
-import { AlertTriangle, CheckCircle, ExternalLink } from 'lucide-react';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { verifyDeployment } from '@/lib/verification';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { useQuery } from '@tanstack/react-query';
+import { AlertTriangle, CheckCircle, ExternalLink, RefreshCw, XCircle } from 'lucide-react';
+import { NetworkSelector } from './NetworkSelector';
+
+function LoadingScreen({ message }: { message: string }) {
+    return (
+        <div className="min-h-screen flex items-center justify-center">
+            <div className="text-center">
+                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+                <p className="text-white/60 mt-4">{message}</p>
+            </div>
+        </div>
+    );
+}
+
+function CheckList({ items }: { items: { key: string; label: string; detail: string; passed: boolean }[] }) {
+    return (
+        <ul className="space-y-2">
+            {items.map((item) => (
+                <li key={item.key} className="flex items-start gap-2 text-sm">
+                    {item.passed ? (
+                        <CheckCircle className="w-4 h-4 text-green-400 mt-0.5 flex-shrink-0" />
+                    ) : (
+                        <XCircle className="w-4 h-4 text-red-400 mt-0.5 flex-shrink-0" />
+                    )}
+                    <span className="min-w-0 break-words">
+                        <span className={item.passed ? 'text-green-200' : 'text-red-200'}>{item.label}</span>
+                        <span className="text-white/60">: {item.detail}</span>
+                    </span>
+                </li>
+            ))}
+        </ul>
+    );
+}
 
 export function ConfigValidator({ children }: { children: React.ReactNode }) {
-    const isConfigured = isContractsConfigured();
+    const suiClient = useSuiClient();
+    const { network, config, deployment, contracts } = useMeltyFiNetwork();
+
+    // Confirm the configured IDs point at a compatible MeltyFi deployment before anything queries them
+    const {
+        data: checks,
+        error: verificationError,
+        isLoading: isVerifying,
+        refetch: retryVerification,
+        isFetching: isRetrying,
+    } = useQuery({
+        queryKey: ['deploymentVerification', network, contracts],
+        queryFn: () => verifyDeployment(suiClient, contracts),
+        enabled: deployment.status === 'ready',
+        staleTime: Infinity,
+        retry: 1,
+    });
+
+    if (deployment.status === 'loading') {
+        return <LoadingScreen message={`Loading ${config.name} deployment...`} />;
+    }
 
-    if (!isConfigured) {
+    if (deployment.status === 'ready' && isVerifying) {
+        return <LoadingScreen message={`Verifying ${config.name} deployment...`} />;
+    }
+
+    const failedChecks = checks?.filter((check) => !check.passed) ?? [];
+
+    if (deployment.status === 'invalid' || verificationError || failedChecks.length > 0) {
         return (
             <div className="min-h-screen bg-gradient-to-br from-purple-900 via-blue-900 to-indigo-900 flex items-center justify-center">
                 <div className="max-w-md mx-auto p-8 bg-white/5 backdrop-blur-sm rounded-lg border border-white/10">
                     <div className="text-center">
                         <AlertTriangle className="w-16 h-16 text-yellow-500 mx-auto mb-4" />
-                        <h2 className="text-2xl font-bold text-white mb-4">Configuration Required</h2>
-                        <p className="text-white/60 mb-6">
-                            MeltyFi contracts need to be deployed and configured before using the application.
+                        <h2 className="text-2xl font-bold text-white mb-4">
+                            {deployment.status === 'invalid' ? 'Configuration Required' : 'Deployment Verification Failed'}
+                        </h2>
+                        <p className="text-white/60 mb-4">
+                            {deployment.status === 'invalid'
+                                ? `MeltyFi contracts are not configured for ${config.name}. Deploy them or switch to another network.`
+                                : `The configured MeltyFi contracts do not match what is on ${config.name}. Redeploy or switch to another network.`}
                         </p>
 
-                        <div className="space-y-3 text-left mb-6">
-                            <div className="flex items-center gap-2 text-sm">
-                                <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                                <span className="text-white/60">Deploy contracts to testnet</span>
-                            </div>
-                            <div className="flex items-center gap-2 text-sm">
-                                <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                                <span className="text-white/60">Update environment variables</span>
-                            </div>
-                            <div className="flex items-center gap-2 text-sm">
-                                <div className="w-2 h-2 bg-red-500 rounded-full"></div>
-                                <span className="text-white/60">Restart the application</span>
-                            </div>
+                        <div className="flex justify-center mb-6">
+                            <NetworkSelector />
                         </div>
 
+                        <div className="rounded-lg border border-red-500/20 bg-red-500/10 p-4 text-left mb-6">
+                            {deployment.status === 'invalid' ? (
+                                <>
+                                    <p className="text-xs text-white/40 mb-2 font-mono break-all">{deployment.url}</p>
+                                    <CheckList
+                                        items={deployment.issues.map((issue) => ({
+                                            key: issue.path,
+                                            label: issue.path,
+                                            detail: issue.message,
+                                            passed: false,
+                                        }))}
+                                    />
+                                </>
+                            ) : verificationError ? (
+                                <CheckList
+                                    items={[{
+                                        key: 'rpc',
+                                        label: `Could not reach ${config.name}`,
+                                        detail: verificationError.message,
+                                        passed: false,
+                                    }]}
+                                />
+                            ) : (
+                                <CheckList
+                                    items={(checks ?? []).map((check) => ({ ...check, key: check.id }))}
+                                />
+                            )}
+                        </div>
+
+                        {deployment.status === 'ready' && (
+                            <button
+                                onClick={() => retryVerification()}
+                                disabled={isRetrying}
+                                className="w-full mb-6 border border-white/20 hover:bg-white/10 disabled:opacity-50 text-white text-sm font-medium py-2 px-4 rounded-md transition-colors flex items-center justify-center gap-2"
+                            >
+                                <RefreshCw className={`w-4 h-4 ${isRetrying ? 'animate-spin' : ''}`} />
+                                Verify Again
+                            </button>
+                        )}
+
                         <div className="bg-gray-800/50 rounded-lg p-4 text-left">
                             <p className="text-xs text-white/40 mb-2">Run deployment script:</p>
                             <code className="text-xs text-green-400 font-mono">
                                 npm run deploy:auto
                             </code>
+                            <p className="text-xs text-white/40 mt-2">
+                                It publishes deployment_info.json to public/deployments/{network}.json; no rebuild needed.
+                            </p>
                         </div>
 
                         <div className="mt-6 flex gap-2">
-                            <a
-                                href={CURRENT_CONFIG.faucet}
-                                target="_blank"
-                                rel="noopener noreferrer"
-                                className="flex-1 bg-blue-600 hover:bg-blue-700 text-white text-sm py-2 px-4 rounded-md transition-colors flex items-center justify-center gap-2"
-                            >
-                                Get Testnet SUI
-                                <ExternalLink className="w-3 h-3" />
-                            </a>
+                            {config.faucet && (
+                                <a
+                                    href={config.faucet}
+                                    target="_blank"
+                                    rel="noopener noreferrer"
+                                    className="flex-1 bg-blue-600 hover:bg-blue-700 text-white text-sm py-2 px-4 rounded-md transition-colors flex items-center justify-center gap-2"
+                                >
+                                    Get {network.charAt(0).toUpperCase() + network.slice(1)} SUI
+                                    <ExternalLink className="w-3 h-3" />
+                                </a>
+                            )}
                             <a
                                 href="https://github.com/VincenzoImp/MeltyFi"
                                 target="_blank"
@@ -71,8 +170,13 @@ export function ConfigValidator({ children }: { children: React.ReactNode }) {
             <div className="bg-green-600/10 border-b border-green-500/20 px-4 py-2">
                 <div className="container mx-auto flex items-center justify-center gap-2">
                     <CheckCircle className="w-4 h-4 text-green-400" />
-                    <span className="text-sm text-green-200">
-                        Connected to MeltyFi on {CURRENT_CONFIG.name}
+                    <span
+                        className="text-sm text-green-200"
+                        title={checks?.map((check) => `✓ ${check.label}`).join('\n')}
+                    >
+                        Connected to MeltyFi on {config.name}
+                        {deployment.source === 'env' && ' (build-time configuration)'}
+                        {checks && ` · ${checks.length} checks passed`}
                     </span>
                 </div>
             </div>
@@ -0,0 +1,29 @@
+'use client';
+
+import { useDeploymentConfig } from '@/components/providers/DeploymentConfigProvider';
+import { SUPPORTED_NETWORKS, type MeltyFiNetwork } from '@/constants/contracts';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { ChevronDown } from 'lucide-react';
+
+export function NetworkSelector() {
+    const { network, selectNetwork } = useMeltyFiNetwork();
+    const deployments = useDeploymentConfig();
+
+    return (
+        <div className="relative">
+            <select
+                value={network}
+                onChange={(e) => selectNetwork(e.target.value as MeltyFiNetwork)}
+                aria-label="Select network"
+                className="appearance-none pl-3 pr-7 py-1 bg-yellow-500/20 text-yellow-200 text-xs rounded-full border border-yellow-500/30 focus:outline-none focus:border-yellow-500/60 cursor-pointer"
+            >
+                {SUPPORTED_NETWORKS.map((option) => (
+                    <option key={option} value={option} className="bg-gray-900 text-white">
+                        {`${option.toUpperCase()}${deployments[option].status === 'invalid' ? ' (not deployed)' : ''}`}
+                    </option>
+                ))}
+            </select>
+            <ChevronDown className="w-3 h-3 text-yellow-200 absolute right-2 top-1/2 -translate-y-1/2 pointer-events-none" />
+        </div>
+    );
+}
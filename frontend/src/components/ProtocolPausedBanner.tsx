@@ -0,0 +1,21 @@
+'use client';
+
+import { useProtocolStatus } from '@/hooks/useProtocolStatus';
+import { PauseCircle } from 'lucide-react';
+
+export function ProtocolPausedBanner() {
+    const { isPaused } = useProtocolStatus();
+
+    if (!isPaused) return null;
+
+    return (
+        <div className="bg-yellow-600/10 border-b border-yellow-500/20 px-4 py-2">
+            <div className="container mx-auto flex items-center justify-center gap-2">
+                <PauseCircle className="w-4 h-4 text-yellow-400" />
+                <span className="text-sm text-yellow-200">
+                    MeltyFi is paused by its administrators: creating, buying, resolving and cancelling lotteries are disabled. Claims remain available.
+                </span>
+            </div>
+        </div>
+    );
+}
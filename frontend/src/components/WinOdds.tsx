@@ -0,0 +1,92 @@
+'use client';
+
+import type { Lottery } from '@/hooks/useMeltyFi';
+import { getWonkaBarsCost } from '@/lib/meltyfi-tx';
+import { calculateExpectedValue, calculateWinOdds, formatProbability } from '@/lib/odds';
+import { formatSuiAmount } from '@/lib/utils';
+import { Info } from 'lucide-react';
+import { useState } from 'react';
+
+interface WinOddsProps {
+    lottery: Lottery;
+    quantity: number;
+    buyer?: string;
+}
+
+export function WinOdds({ lottery, quantity, buyer }: WinOddsProps) {
+    const [nftValue, setNftValue] = useState('');
+
+    const odds = calculateWinOdds({
+        participantAddresses: lottery.participantAddresses,
+        soldCount: lottery.soldCount,
+        maxSupply: lottery.maxSupply,
+        buyer,
+        quantity,
+    });
+    const cost = getWonkaBarsCost(lottery.wonkaBarPrice, quantity);
+
+    // Whole MIST only; rounding avoids float artefacts like 0.1 * 1e9
+    const nftValueMist = nftValue && parseFloat(nftValue) > 0
+        ? Math.round(parseFloat(nftValue) * 1000000000).toString()
+        : null;
+    // Valued by the chance the purchase adds, so for an existing participant it is just the cost
+    const expected = calculateExpectedValue(odds.marginal, nftValueMist ?? '0', cost);
+    const worstExpected = calculateExpectedValue(odds.worstCaseMarginal, nftValueMist ?? '0', cost);
+
+    return (
+        <div className="rounded-md border border-white/10 bg-black/20 p-3 space-y-2 text-sm">
+            <div className="flex justify-between">
+                <span className="text-white/60">{odds.isParticipant ? 'Your odds' : 'Odds after purchase'}</span>
+                <span className="text-white font-medium">
+                    {formatProbability(odds.afterPurchase)}
+                    {odds.worstCase < odds.afterPurchase && (
+                        <span className="text-white/40 font-normal"> (as low as {formatProbability(odds.worstCase)})</span>
+                    )}
+                </span>
+            </div>
+
+            <p className="flex items-start gap-1.5 text-xs text-white/50">
+                <Info className="w-3 h-3 mt-0.5 shrink-0" />
+                {odds.isParticipant
+                    ? 'You are already in the draw. The winner is picked per address, so more WonkaBars do not raise your odds.'
+                    : `The winner is picked per address among ${odds.participantsAfterPurchase} participant${odds.participantsAfterPurchase === 1 ? '' : 's'}, so one WonkaBar gives the same odds as many.`}
+            </p>
+
+            {/* Let the buyer enter what the NFT is worth to them and show the expected value */}
+            <div className="pt-2 border-t border-white/10 space-y-2">
+                <div className="flex items-center gap-2">
+                    <label htmlFor={`nft-value-${lottery.id}`} className="text-white/60 whitespace-nowrap">
+                        NFT value (SUI):
+                    </label>
+                    <input
+                        id={`nft-value-${lottery.id}`}
+                        type="number"
+                        step="0.1"
+                        min="0"
+                        value={nftValue}
+                        onChange={(e) => setNftValue(e.target.value)}
+                        className="w-full px-2 py-1 bg-white/10 border border-white/20 rounded text-white text-sm"
+                        placeholder="Optional"
+                    />
+                </div>
+                {nftValueMist ? (
+                    <div className="flex justify-between">
+                        <span className="text-white/60">Expected value</span>
+                        <span className={`font-medium ${expected.expectedValue >= 0 ? 'text-green-400' : 'text-red-400'}`}>
+                            {expected.expectedValue >= 0 ? '+' : ''}{formatSuiAmount(expected.expectedValue)} SUI
+                            {worstExpected.expectedValue < expected.expectedValue && (
+                                <span className="text-white/40 font-normal"> (worst {formatSuiAmount(worstExpected.expectedValue)})</span>
+                            )}
+                        </span>
+                    </div>
+                ) : (
+                    <p className="text-xs text-white/50">
+                        {odds.isParticipant
+                            ? 'You are already in the draw, so more WonkaBars only add cost and never break even.'
+                            : `Breaks even if the NFT is worth at least ${formatSuiAmount(expected.breakEvenNftValue)} SUI to you.`}
+                    </p>
+                )}
+            </div>
+        </div>
+    );
+}
@@ -0,0 +1,78 @@
+'use client';
+
+import {
+    isContractsConfigured,
+    NETWORK_CONFIG,
+    SUPPORTED_NETWORKS,
+    type MeltyFiContracts,
+    type MeltyFiNetwork
+} from '@/constants/contracts';
+import {
+    fetchDeploymentInfo,
+    getDeploymentUrl,
+    toMeltyFiContracts,
+    validateDeploymentInfo,
+    type DeploymentInfo,
+    type DeploymentIssue
+} from '@/lib/deployment';
+import { useQueries } from '@tanstack/react-query';
+import { createContext, useContext } from 'react';
+
+export type DeploymentState =
+    | { status: 'loading' }
+    | { status: 'ready'; source: 'file' | 'env'; contracts: MeltyFiContracts; deployment?: DeploymentInfo }
+    | { status: 'invalid'; url: string; issues: DeploymentIssue[] };
+
+type DeploymentStates = Record<MeltyFiNetwork, DeploymentState>;
+
+const DeploymentConfigContext = createContext<DeploymentStates | null>(null);
+
+export function useDeploymentConfig(): DeploymentStates {
+    const deployments = useContext(DeploymentConfigContext);
+    if (!deployments) throw new Error('useDeploymentConfig must be used within DeploymentConfigProvider');
+    return deployments;
+}
+
+// A served file always wins; env vars are only consulted when nothing is served
+function toDeploymentState(network: MeltyFiNetwork, document: unknown | null | undefined, error: Error | null): DeploymentState {
+    const url = getDeploymentUrl(network);
+
+    if (error) {
+        return { status: 'invalid', url, issues: [{ path: '(file)', message: error.message }] };
+    }
+    if (document === undefined) return { status: 'loading' };
+
+    if (document === null) {
+        const envContracts = NETWORK_CONFIG[network].envContracts;
+        return isContractsConfigured(envContracts)
+            ? { status: 'ready', source: 'env', contracts: envContracts }
+            : { status: 'invalid', url, issues: [{ path: '(file)', message: `No deployment served at ${url}` }] };
+    }
+
+    const validation = validateDeploymentInfo(document, network);
+    return validation.valid
+        ? { status: 'ready', source: 'file', contracts: toMeltyFiContracts(validation.deployment), deployment: validation.deployment }
+        : { status: 'invalid', url, issues: validation.issues };
+}
+
+export function DeploymentConfigProvider({ children }: { children: React.ReactNode }) {
+    const deployments = useQueries({
+        queries: SUPPORTED_NETWORKS.map((network) => ({
+            queryKey: ['deployment', network],
+            queryFn: () => fetchDeploymentInfo(network),
+            retry: false,
+        })),
+        combine: (results) => Object.fromEntries(
+            results.map((result, index) => [
+                SUPPORTED_NETWORKS[index],
+                toDeploymentState(SUPPORTED_NETWORKS[index], result.data, result.error),
+            ])
+        ) as DeploymentStates,
+    });
+
+    return (
+        <DeploymentConfigContext.Provider value={deployments}>
+            {children}
+        </DeploymentConfigContext.Provider>
+    );
+}
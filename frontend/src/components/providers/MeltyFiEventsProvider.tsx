@@ -0,0 +1,112 @@
+'use client';
+
+import { LOTTERY_STATES, type Lottery } from '@/hooks/useMeltyFi';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { watchMeltyFiEvents, type MeltyFiEvent } from '@/lib/meltyfi-events';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
+import { useQueryClient } from '@tanstack/react-query';
+import { useEffect, useRef } from 'react';
+
+// Keeps the useMeltyFi query cache current from on-chain events instead of fixed-interval refetches
+export function MeltyFiEventsProvider({ children }: { children: React.ReactNode }) {
+    const suiClient = useSuiClient();
+    const queryClient = useQueryClient();
+    const currentAccount = useCurrentAccount();
+    const { network, contracts } = useMeltyFiNetwork();
+
+    // Read through a ref so switching accounts does not restart the subscription
+    const addressRef = useRef(currentAccount?.address);
+    useEffect(() => {
+        addressRef.current = currentAccount?.address;
+    }, [currentAccount?.address]);
+
+    useEffect(() => {
+        if (!contracts.packageId) return;
+
+        const patchLottery = (lotteryId: string, patch: (lottery: Lottery) => Lottery) => {
+            queryClient.setQueriesData<Lottery[]>({ queryKey: ['lotteries', network] }, (lotteries) =>
+                lotteries?.map((lottery) => (lottery.lotteryId === lotteryId ? patch(lottery) : lottery))
+            );
+        };
+
+        const findLotteryObjectId = (lotteryId: string) => queryClient
+            .getQueriesData<Lottery[]>({ queryKey: ['lotteries', network] })
+            .flatMap(([, lotteries]) => lotteries ?? [])
+            .find((lottery) => lottery.lotteryId === lotteryId)?.id;
+
+        const invalidateUserQueries = (address: string, keys: string[]) => {
+            if (address !== addressRef.current) return;
+            keys.forEach((key) => queryClient.invalidateQueries({ queryKey: [key, network] }));
+        };
+
+        const invalidateProtocolQueries = () => {
+            queryClient.invalidateQueries({ queryKey: ['protocolStatus', network] });
+            queryClient.invalidateQueries({ queryKey: ['protocolStats', network] });
+        };
+
+        // Patches are absolute (derived from event totals) so replaying an event is harmless
+        const applyEvent = (event: MeltyFiEvent) => {
+            switch (event.type) {
+                case 'LotteryCreated':
+                    queryClient.invalidateQueries({ queryKey: ['newLotteries', network] });
+                    invalidateProtocolQueries();
+                    invalidateUserQueries(event.owner, ['lotteryReceipts', 'balances']);
+                    break;
+                case 'WonkaBarsPurchased':
+                    patchLottery(event.lotteryId, (lottery) => {
+                        const participantAddresses = lottery.participantAddresses.includes(event.buyer)
+                            ? lottery.participantAddresses
+                            : [...lottery.participantAddresses, event.buyer];
+                        return {
+                            ...lottery,
+                            soldCount: event.totalSold,
+                            totalRaised: (BigInt(lottery.wonkaBarPrice) * BigInt(event.totalSold)).toString(),
+                            participants: participantAddresses.length,
+                            participantAddresses,
+                        };
+                    });
+                    // The detail page also lists participants and purchases, which only a refetch can provide
+                    queryClient.invalidateQueries({ queryKey: ['lottery', network] });
+                    queryClient.invalidateQueries({ queryKey: ['lotteryPurchases', network] });
+                    queryClient.invalidateQueries({ queryKey: ['purchaseVolume', network] });
+                    invalidateUserQueries(event.buyer, ['wonkaBars', 'balances']);
+                    break;
+                case 'LotteryResolved': {
+                    const state = LOTTERY_STATES[event.state] ?? 'ACTIVE';
+                    patchLottery(event.lotteryId, (lottery) => ({
+                        ...lottery,
+                        state,
+                        totalRaised: event.totalRaised,
+                        winner: event.winner,
+                        winningTicket: state === 'CONCLUDED' ? event.winningTicket : undefined,
+                    }));
+                    queryClient.invalidateQueries({ queryKey: ['lottery', network] });
+                    invalidateProtocolQueries();
+                    break;
+                }
+                case 'FundsWithdrawn':
+                    if (event.withdrawalType === 'protocol_fees') {
+                        invalidateProtocolQueries();
+                    }
+                    if (event.withdrawalType === 'nft_claim') {
+                        const lotteryObjectId = findLotteryObjectId(event.lotteryId);
+                        if (lotteryObjectId) {
+                            queryClient.invalidateQueries({ queryKey: ['collateralNft', network, lotteryObjectId] });
+                        }
+                    }
+                    invalidateUserQueries(event.recipient, ['wonkaBars', 'balances']);
+                    break;
+                case 'ProtocolUpdated':
+                    invalidateProtocolQueries();
+                    break;
+            }
+        };
+
+        return watchMeltyFiEvents(suiClient, contracts.packageId, (events) => {
+            events.forEach(applyEvent);
+            if (events.length > 0) queryClient.invalidateQueries({ queryKey: ['activity', network] });
+        });
+    }, [suiClient, queryClient, network, contracts.packageId]);
+
+    return <>{children}</>;
+}
@@ -1,17 +1,25 @@
 'use client';
 
+import { DEFAULT_NETWORK, isSupportedNetwork, NETWORK_CONFIG, type MeltyFiNetwork } from '@/constants/contracts';
 import { createNetworkConfig, SuiClientProvider, WalletProvider } from '@mysten/dapp-kit';
 import '@mysten/dapp-kit/dist/index.css';
-import { getFullnodeUrl } from '@mysten/sui/client';
 import { QueryClient, QueryClientProvider } from '@tanstack/react-query';
 import { ReactQueryDevtools } from '@tanstack/react-query-devtools';
-import { useState } from 'react';
+import { useEffect, useState } from 'react';
+import { DeploymentConfigProvider } from './DeploymentConfigProvider';
+import { MeltyFiEventsProvider } from './MeltyFiEventsProvider';
+import { TransactionPreviewProvider } from './TransactionPreviewProvider';
 
 // Network configuration
 const { networkConfig } = createNetworkConfig({
-    testnet: { url: getFullnodeUrl('testnet') },
+    mainnet: { url: NETWORK_CONFIG.mainnet.rpcUrl },
+    testnet: { url: NETWORK_CONFIG.testnet.rpcUrl },
+    devnet: { url: NETWORK_CONFIG.devnet.rpcUrl },
+    localnet: { url: NETWORK_CONFIG.localnet.rpcUrl },
 });
 
+const NETWORK_STORAGE_KEY = 'meltyfi:network';
+
 export function Providers({ children }: { children: React.ReactNode }) {
     const [queryClient] = useState(() => new QueryClient({
         defaultOptions: {
@@ -22,14 +30,32 @@ export function Providers({ children }: { children: React.ReactNode }) {
             },
         },
     }));
+    const [network, setNetwork] = useState<MeltyFiNetwork>(DEFAULT_NETWORK);
+
+    // Restore the last selected network after hydration so server and client render the same markup
+    useEffect(() => {
+        const stored = window.localStorage.getItem(NETWORK_STORAGE_KEY);
+        if (stored && isSupportedNetwork(stored)) setNetwork(stored);
+    }, []);
+
+    const handleNetworkChange = (selected: MeltyFiNetwork) => {
+        window.localStorage.setItem(NETWORK_STORAGE_KEY, selected);
+        setNetwork(selected);
+    };
 
     return (
         <QueryClientProvider client={queryClient}>
-            <SuiClientProvider networks={networkConfig} defaultNetwork="testnet">
-                <WalletProvider autoConnect>
-                    {children}
-                    <ReactQueryDevtools initialIsOpen={false} />
-                </WalletProvider>
+            <SuiClientProvider networks={networkConfig} network={network} onNetworkChange={handleNetworkChange}>
+                <DeploymentConfigProvider>
+                    <WalletProvider autoConnect>
+                        <TransactionPreviewProvider>
+                            <MeltyFiEventsProvider>
+                                {children}
+                            </MeltyFiEventsProvider>
+                        </TransactionPreviewProvider>
+                        <ReactQueryDevtools initialIsOpen={false} />
+                    </WalletProvider>
+                </DeploymentConfigProvider>
             </SuiClientProvider>
         </QueryClientProvider>
     );
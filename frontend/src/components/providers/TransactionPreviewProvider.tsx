@@ -0,0 +1,205 @@
+'use client';
+
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { toMeltyFiError } from '@/lib/errors';
+import { simulateTransaction, type SimulationResult } from '@/lib/simulation';
+import { formatSuiAmount, shortenAddress } from '@/lib/utils';
+import { useSuiClient } from '@mysten/dapp-kit';
+import type { BalanceChange } from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import { AlertTriangle, CheckCircle, Fuel } from 'lucide-react';
+import { createContext, useCallback, useContext, useRef, useState } from 'react';
+
+const SUI_COIN_TYPE = normalizeStructTag('0x2::sui::SUI');
+
+interface PreviewRequest {
+    title: string;
+    tx: Transaction;
+    resolve: (approved: boolean) => void;
+}
+
+type PreviewState =
+    | { status: 'simulating' }
+    | { status: 'ready'; result: SimulationResult }
+    | { status: 'error'; message: string };
+
+type ConfirmTransaction = (tx: Transaction, title: string) => Promise<boolean>;
+
+const TransactionPreviewContext = createContext<ConfirmTransaction | null>(null);
+
+export function useTransactionPreview(): ConfirmTransaction {
+    const confirm = useContext(TransactionPreviewContext);
+    if (!confirm) throw new Error('useTransactionPreview must be used within TransactionPreviewProvider');
+    return confirm;
+}
+
+function formatBalanceChange(change: BalanceChange): string {
+    const amount = BigInt(change.amount);
+    const sign = amount > BigInt(0) ? '+' : '-';
+    const absolute = amount < BigInt(0) ? -amount : amount;
+
+    if (normalizeStructTag(change.coinType) === SUI_COIN_TYPE) {
+        return `${sign}${formatSuiAmount(absolute)} SUI`;
+    }
+    return `${sign}${absolute.toString()} ${change.coinType.split('::').pop()}`;
+}
+
+function getOwnerAddress(change: BalanceChange): string | null {
+    return typeof change.owner === 'object' && 'AddressOwner' in change.owner
+        ? change.owner.AddressOwner
+        : null;
+}
+
+function SimulationFailure({ error }: { error?: string }) {
+    const { contracts } = useMeltyFiNetwork();
+    const meltyFiError = toMeltyFiError(error ?? 'Unknown error', contracts.packageId);
+
+    return (
+        <div className="rounded-lg border border-red-500/20 bg-red-500/10 p-4">
+            <div className="flex items-center gap-2 mb-1">
+                <AlertTriangle className="w-4 h-4 text-red-400" />
+                <span className="font-medium text-red-200">
+                    {meltyFiError.abort ? meltyFiError.title : 'This transaction would fail'}
+                </span>
+            </div>
+            <p className="text-xs text-red-200/70 break-words">{meltyFiError.message}</p>
+            {meltyFiError.suggestion && (
+                <p className="text-xs text-red-200/90 mt-2">{meltyFiError.suggestion}</p>
+            )}
+        </div>
+    );
+}
+
+export function TransactionPreviewProvider({ children }: { children: React.ReactNode }) {
+    const suiClient = useSuiClient();
+    const [request, setRequest] = useState<PreviewRequest | null>(null);
+    const [preview, setPreview] = useState<PreviewState>({ status: 'simulating' });
+    // The open request, read by simulations to tell whether their result still applies
+    const activeRequest = useRef<PreviewRequest | null>(null);
+
+    const confirm = useCallback<ConfirmTransaction>((tx, title) => {
+        return new Promise<boolean>((resolve) => {
+            // A new request replaces the open one, which is declined rather than left pending
+            activeRequest.current?.resolve(false);
+
+            const current: PreviewRequest = { title, tx, resolve };
+            activeRequest.current = current;
+            setRequest(current);
+            setPreview({ status: 'simulating' });
+
+            simulateTransaction(suiClient, tx)
+                .then((result) => {
+                    if (activeRequest.current === current) setPreview({ status: 'ready', result });
+                })
+                .catch((error) => {
+                    console.error('Error simulating transaction:', error);
+                    if (activeRequest.current !== current) return;
+                    setPreview({ status: 'error', message: error instanceof Error ? error.message : String(error) });
+                });
+        });
+    }, [suiClient]);
+
+    const close = (approved: boolean) => {
+        const current = activeRequest.current;
+        activeRequest.current = null;
+        current?.resolve(approved);
+        setRequest(null);
+    };
+
+    const canSign = preview.status === 'ready' && preview.result.success;
+
+    return (
+        <TransactionPreviewContext.Provider value={confirm}>
+            {children}
+
+            {request && (
+                <div className="fixed inset-0 bg-black/80 backdrop-blur-sm z-50 flex items-end sm:items-center justify-center p-4">
+                    <div className="bg-gradient-to-br from-gray-900 via-purple-900 to-violet-900 rounded-2xl border border-white/20 max-w-lg w-full p-6">
+                        <h2 className="text-2xl font-bold text-white mb-1">{request.title}</h2>
+                        <p className="text-white/60 text-sm mb-6">Review the simulated outcome before signing.</p>
+
+                        {preview.status === 'simulating' && (
+                            <div className="text-center py-8">
+                                <div className="inline-block animate-spin rounded-full h-8 w-8 border-b-2 border-white"></div>
+                                <p className="text-white/60 mt-4">Simulating transaction...</p>
+                            </div>
+                        )}
+
+                        {preview.status === 'error' && (
+                            <div className="rounded-lg border border-red-500/20 bg-red-500/10 p-4 mb-6">
+                                <div className="flex items-center gap-2 mb-1">
+                                    <AlertTriangle className="w-4 h-4 text-red-400" />
+                                    <span className="font-medium text-red-200">Simulation unavailable</span>
+                                </div>
+                                <p className="text-xs text-red-200/70 break-words">{preview.message}</p>
+                            </div>
+                        )}
+
+                        {preview.status === 'ready' && (
+                            <div className="space-y-4 mb-6">
+                                {preview.result.success ? (
+                                    <div className="flex items-center gap-2 text-green-300 text-sm">
+                                        <CheckCircle className="w-4 h-4" />
+                                        Simulation succeeded
+                                    </div>
+                                ) : (
+                                    <SimulationFailure error={preview.result.error} />
+                                )}
+
+                                <div className="rounded-lg border border-white/10 bg-black/20 p-4 space-y-2 text-sm">
+                                    <div className="flex justify-between">
+                                        <span className="flex items-center gap-2 text-white/60">
+                                            <Fuel className="w-4 h-4" /> Estimated gas
+                                        </span>
+                                        <span className="text-white">{formatSuiAmount(preview.result.gasCost)} SUI</span>
+                                    </div>
+
+                                    {preview.result.balanceChanges.map((change, index) => (
+                                        <div key={`${change.coinType}-${index}`} className="flex justify-between">
+                                            <span className="text-white/60">
+                                                {getOwnerAddress(change) ? shortenAddress(getOwnerAddress(change)!) : 'Object'}
+                                            </span>
+                                            <span className={BigInt(change.amount) < BigInt(0) ? 'text-red-300' : 'text-green-300'}>
+                                                {formatBalanceChange(change)}
+                                            </span>
+                                        </div>
+                                    ))}
+                                </div>
+
+                                {preview.result.createdObjects.length > 0 && (
+                                    <div className="rounded-lg border border-white/10 bg-black/20 p-4 text-sm">
+                                        <p className="text-white/60 mb-2">Objects created</p>
+                                        <ul className="space-y-1">
+                                            {preview.result.createdObjects.map((object) => (
+                                                <li key={object.objectId} className="text-white/80 font-mono text-xs truncate">
+                                                    {object.objectType.split('::').slice(1).join('::')}
+                                                </li>
+                                            ))}
+                                        </ul>
+                                    </div>
+                                )}
+                            </div>
+                        )}
+
+                        <div className="flex gap-3">
+                            <button
+                                onClick={() => close(false)}
+                                className="flex-1 border border-white/20 hover:bg-white/10 text-white font-medium py-2 px-4 rounded-md transition-colors"
+                            >
+                                Cancel
+                            </button>
+                            <button
+                                onClick={() => close(true)}
+                                disabled={!canSign}
+                                className="flex-1 bg-gradient-to-r from-purple-600 to-pink-600 hover:from-purple-700 hover:to-pink-700 disabled:from-gray-600 disabled:to-gray-600 disabled:cursor-not-allowed text-white font-medium py-2 px-4 rounded-md transition-colors"
+                            >
+                                Sign & Execute
+                            </button>
+                        </div>
+                    </div>
+                </div>
+            )}
+        </TransactionPreviewContext.Provider>
+    );
+}
@@ -1,36 +1,232 @@
-export const MELTYFI_PACKAGE_ID = process.env.NEXT_PUBLIC_MELTYFI_PACKAGE_ID || '';
-export const PROTOCOL_OBJECT_ID = process.env.NEXT_PUBLIC_PROTOCOL_OBJECT_ID || '';
-export const CHOCOLATE_FACTORY_ID = process.env.NEXT_PUBLIC_CHOCOLATE_FACTORY_ID || '';
-export const ADMIN_CAP_ID = process.env.NEXT_PUBLIC_ADMIN_CAP_ID || '';
-export const FACTORY_ADMIN_ID = process.env.NEXT_PUBLIC_FACTORY_ADMIN_ID || '';
+import { getFullnodeUrl } from '@mysten/sui/client';
 
-// Token types
-export const CHOCO_CHIP_TYPE = process.env.NEXT_PUBLIC_CHOCO_CHIP_TYPE || `${MELTYFI_PACKAGE_ID}::choco_chip::CHOCO_CHIP`;
-export const WONKA_BAR_TYPE = process.env.NEXT_PUBLIC_WONKA_BAR_TYPE || `${MELTYFI_PACKAGE_ID}::core::WonkaBar`;
+export type MeltyFiNetwork = 'mainnet' | 'testnet' | 'devnet' | 'localnet';
+
+export const SUPPORTED_NETWORKS: MeltyFiNetwork[] = ['mainnet', 'testnet', 'devnet', 'localnet'];
+
+export interface MeltyFiContracts {
+    packageId: string;
+    protocolObjectId: string;
+    chocolateFactoryId: string;
+    adminCapId: string;
+    factoryAdminId: string;
+}
+
+export interface MeltyFiTypes {
+    chocoChip: string;
+    wonkaBar: string;
+    lottery: string;
+    lotteryReceipt: string;
+    protocol: string;
+    chocolateFactory: string;
+    adminCap: string;
+    factoryAdmin: string;
+}
+
+// Where lottery and user data is read from; transactions always go through the fullnode
+export type DataSourceKind = 'json-rpc' | 'graphql' | 'indexer';
+
+export const DATA_SOURCE_KINDS: DataSourceKind[] = ['json-rpc', 'graphql', 'indexer'];
+
+export interface NetworkConfig {
+    rpcUrl: string;
+    graphqlUrl: string;
+    explorer: string;
+    // Value of the explorer's ?network= parameter
+    explorerNetwork: string;
+    faucet?: string;
+    name: string;
+    chainId: `sui:${MeltyFiNetwork}`;
+    // Build-time fallback, used only when no deployment file is served for the network
+    envContracts: MeltyFiContracts;
+    // Base URL of a MeltyFi indexer for this network (see indexer/ at the repository root)
+    indexerUrl?: string;
+    dataSource: DataSourceKind;
+}
+
+// The unprefixed variables written by scripts/auto_deploy.sh describe the deployment on NEXT_PUBLIC_SUI_NETWORK
+export const DEFAULT_NETWORK: MeltyFiNetwork = SUPPORTED_NETWORKS.includes(process.env.NEXT_PUBLIC_SUI_NETWORK as MeltyFiNetwork)
+    ? process.env.NEXT_PUBLIC_SUI_NETWORK as MeltyFiNetwork
+    : 'testnet';
+
+const DEFAULT_NETWORK_CONTRACTS: Partial<MeltyFiContracts> = {
+    packageId: process.env.NEXT_PUBLIC_MELTYFI_PACKAGE_ID,
+    protocolObjectId: process.env.NEXT_PUBLIC_PROTOCOL_OBJECT_ID,
+    chocolateFactoryId: process.env.NEXT_PUBLIC_CHOCOLATE_FACTORY_ID,
+    adminCapId: process.env.NEXT_PUBLIC_ADMIN_CAP_ID,
+    factoryAdminId: process.env.NEXT_PUBLIC_FACTORY_ADMIN_ID,
+};
+
+// Per-network deployments; Next.js only inlines NEXT_PUBLIC_ variables referenced by their full name
+const NETWORK_CONTRACTS: Record<MeltyFiNetwork, Partial<MeltyFiContracts>> = {
+    mainnet: {
+        packageId: process.env.NEXT_PUBLIC_MAINNET_MELTYFI_PACKAGE_ID,
+        protocolObjectId: process.env.NEXT_PUBLIC_MAINNET_PROTOCOL_OBJECT_ID,
+        chocolateFactoryId: process.env.NEXT_PUBLIC_MAINNET_CHOCOLATE_FACTORY_ID,
+        adminCapId: process.env.NEXT_PUBLIC_MAINNET_ADMIN_CAP_ID,
+        factoryAdminId: process.env.NEXT_PUBLIC_MAINNET_FACTORY_ADMIN_ID,
+    },
+    testnet: {
+        packageId: process.env.NEXT_PUBLIC_TESTNET_MELTYFI_PACKAGE_ID,
+        protocolObjectId: process.env.NEXT_PUBLIC_TESTNET_PROTOCOL_OBJECT_ID,
+        chocolateFactoryId: process.env.NEXT_PUBLIC_TESTNET_CHOCOLATE_FACTORY_ID,
+        adminCapId: process.env.NEXT_PUBLIC_TESTNET_ADMIN_CAP_ID,
+        factoryAdminId: process.env.NEXT_PUBLIC_TESTNET_FACTORY_ADMIN_ID,
+    },
+    devnet: {
+        packageId: process.env.NEXT_PUBLIC_DEVNET_MELTYFI_PACKAGE_ID,
+        protocolObjectId: process.env.NEXT_PUBLIC_DEVNET_PROTOCOL_OBJECT_ID,
+        chocolateFactoryId: process.env.NEXT_PUBLIC_DEVNET_CHOCOLATE_FACTORY_ID,
+        adminCapId: process.env.NEXT_PUBLIC_DEVNET_ADMIN_CAP_ID,
+        factoryAdminId: process.env.NEXT_PUBLIC_DEVNET_FACTORY_ADMIN_ID,
+    },
+    localnet: {
+        packageId: process.env.NEXT_PUBLIC_LOCALNET_MELTYFI_PACKAGE_ID,
+        protocolObjectId: process.env.NEXT_PUBLIC_LOCALNET_PROTOCOL_OBJECT_ID,
+        chocolateFactoryId: process.env.NEXT_PUBLIC_LOCALNET_CHOCOLATE_FACTORY_ID,
+        adminCapId: process.env.NEXT_PUBLIC_LOCALNET_ADMIN_CAP_ID,
+        factoryAdminId: process.env.NEXT_PUBLIC_LOCALNET_FACTORY_ADMIN_ID,
+    },
+};
+
+const NETWORK_INDEXER_URLS: Record<MeltyFiNetwork, string | undefined> = {
+    mainnet: process.env.NEXT_PUBLIC_MAINNET_INDEXER_URL,
+    testnet: process.env.NEXT_PUBLIC_TESTNET_INDEXER_URL,
+    devnet: process.env.NEXT_PUBLIC_DEVNET_INDEXER_URL,
+    localnet: process.env.NEXT_PUBLIC_LOCALNET_INDEXER_URL,
+};
+
+function resolveIndexerUrl(network: MeltyFiNetwork): string | undefined {
+    const fallback = network === DEFAULT_NETWORK ? process.env.NEXT_PUBLIC_INDEXER_URL : undefined;
+    return NETWORK_INDEXER_URLS[network] || fallback || undefined;
+}
+
+const NETWORK_GRAPHQL_URLS: Record<MeltyFiNetwork, string | undefined> = {
+    mainnet: process.env.NEXT_PUBLIC_MAINNET_GRAPHQL_URL,
+    testnet: process.env.NEXT_PUBLIC_TESTNET_GRAPHQL_URL,
+    devnet: process.env.NEXT_PUBLIC_DEVNET_GRAPHQL_URL,
+    localnet: process.env.NEXT_PUBLIC_LOCALNET_GRAPHQL_URL,
+};
+
+// Public Mysten Labs endpoints; localnet serves GraphQL when started with --with-graphql
+const DEFAULT_GRAPHQL_URLS: Record<MeltyFiNetwork, string> = {
+    mainnet: 'https://sui-mainnet.mystenlabs.com/graphql',
+    testnet: 'https://sui-testnet.mystenlabs.com/graphql',
+    devnet: 'https://sui-devnet.mystenlabs.com/graphql',
+    localnet: 'http://127.0.0.1:9125/graphql',
+};
+
+const NETWORK_DATA_SOURCES: Record<MeltyFiNetwork, string | undefined> = {
+    mainnet: process.env.NEXT_PUBLIC_MAINNET_DATA_SOURCE,
+    testnet: process.env.NEXT_PUBLIC_TESTNET_DATA_SOURCE,
+    devnet: process.env.NEXT_PUBLIC_DEVNET_DATA_SOURCE,
+    localnet: process.env.NEXT_PUBLIC_LOCALNET_DATA_SOURCE,
+};
+
+// An explicit choice wins; otherwise a configured indexer is used, then the fullnode
+function resolveDataSource(network: MeltyFiNetwork): DataSourceKind {
+    const fallback = network === DEFAULT_NETWORK ? process.env.NEXT_PUBLIC_DATA_SOURCE : undefined;
+    const configured = NETWORK_DATA_SOURCES[network] || fallback;
+    if (DATA_SOURCE_KINDS.includes(configured as DataSourceKind)) return configured as DataSourceKind;
+    return resolveIndexerUrl(network) ? 'indexer' : 'json-rpc';
+}
+
+function resolveContracts(network: MeltyFiNetwork): MeltyFiContracts {
+    const fallback = network === DEFAULT_NETWORK ? DEFAULT_NETWORK_CONTRACTS : {};
+    const contracts = NETWORK_CONTRACTS[network];
+
+    return {
+        packageId: contracts.packageId || fallback.packageId || '',
+        protocolObjectId: contracts.protocolObjectId || fallback.protocolObjectId || '',
+        chocolateFactoryId: contracts.chocolateFactoryId || fallback.chocolateFactoryId || '',
+        adminCapId: contracts.adminCapId || fallback.adminCapId || '',
+        factoryAdminId: contracts.factoryAdminId || fallback.factoryAdminId || '',
+    };
+}
 
 // Network configurations
-export const NETWORK_CONFIG = {
+export const NETWORK_CONFIG: Record<MeltyFiNetwork, NetworkConfig> = {
+    mainnet: {
+        rpcUrl: getFullnodeUrl('mainnet'),
+        graphqlUrl: NETWORK_GRAPHQL_URLS.mainnet || DEFAULT_GRAPHQL_URLS.mainnet,
+        explorer: 'https://suiexplorer.com',
+        explorerNetwork: 'mainnet',
+        name: 'Sui Mainnet',
+        chainId: 'sui:mainnet',
+        envContracts: resolveContracts('mainnet'),
+        indexerUrl: resolveIndexerUrl('mainnet'),
+        dataSource: resolveDataSource('mainnet'),
+    },
     testnet: {
-        rpcUrl: 'https://fullnode.testnet.sui.io:443',
+        rpcUrl: getFullnodeUrl('testnet'),
+        graphqlUrl: NETWORK_GRAPHQL_URLS.testnet || DEFAULT_GRAPHQL_URLS.testnet,
         explorer: 'https://suiexplorer.com',
+        explorerNetwork: 'testnet',
         faucet: 'https://faucet.testnet.sui.io',
         name: 'Sui Testnet',
-        chainId: 'sui:testnet'
+        chainId: 'sui:testnet',
+        envContracts: resolveContracts('testnet'),
+        indexerUrl: resolveIndexerUrl('testnet'),
+        dataSource: resolveDataSource('testnet'),
     },
+    devnet: {
+        rpcUrl: getFullnodeUrl('devnet'),
+        graphqlUrl: NETWORK_GRAPHQL_URLS.devnet || DEFAULT_GRAPHQL_URLS.devnet,
+        explorer: 'https://suiexplorer.com',
+        explorerNetwork: 'devnet',
+        faucet: 'https://faucet.devnet.sui.io',
+        name: 'Sui Devnet',
+        chainId: 'sui:devnet',
+        envContracts: resolveContracts('devnet'),
+        indexerUrl: resolveIndexerUrl('devnet'),
+        dataSource: resolveDataSource('devnet'),
+    },
+    localnet: {
+        rpcUrl: getFullnodeUrl('localnet'),
+        graphqlUrl: NETWORK_GRAPHQL_URLS.localnet || DEFAULT_GRAPHQL_URLS.localnet,
+        explorer: 'https://suiexplorer.com',
+        explorerNetwork: 'local',
+        name: 'Sui Localnet',
+        chainId: 'sui:localnet',
+        envContracts: resolveContracts('localnet'),
+        indexerUrl: resolveIndexerUrl('localnet'),
+        dataSource: resolveDataSource('localnet'),
+    },
+};
+
+export const isSupportedNetwork = (network: string): network is MeltyFiNetwork => {
+    return SUPPORTED_NETWORKS.includes(network as MeltyFiNetwork);
 };
 
-export const CURRENT_NETWORK = 'testnet';
-export const CURRENT_CONFIG = NETWORK_CONFIG[CURRENT_NETWORK];
+// Types are derived from the package ID so they always match the selected deployment
+export const getMeltyFiTypes = (packageId: string): MeltyFiTypes => ({
+    chocoChip: `${packageId}::choco_chip::CHOCO_CHIP`,
+    wonkaBar: `${packageId}::core::WonkaBar`,
+    lottery: `${packageId}::core::Lottery`,
+    lotteryReceipt: `${packageId}::core::LotteryReceipt`,
+    protocol: `${packageId}::core::Protocol`,
+    chocolateFactory: `${packageId}::choco_chip::ChocolateFactory`,
+    adminCap: `${packageId}::core::AdminCap`,
+    factoryAdmin: `${packageId}::choco_chip::FactoryAdmin`,
+});
+
+// Must match PROTOCOL_VERSION in contracts/meltyfi/sources/core.move
+export const EXPECTED_PROTOCOL_VERSION = 1;
 
 // Contract interaction constants
 export const DEFAULT_GAS_BUDGET = 10_000_000; // 0.01 SUI
 export const MAX_GAS_BUDGET = 1_000_000_000; // 1 SUI
 
 // Utility functions
-export const getExplorerUrl = (type: 'txblock' | 'object' | 'address', identifier: string) => {
-    return `${CURRENT_CONFIG.explorer}/${type}/${identifier}?network=${CURRENT_NETWORK}`;
+export const getExplorerUrl = (
+    type: 'txblock' | 'object' | 'address',
+    identifier: string,
+    network: MeltyFiNetwork = DEFAULT_NETWORK
+) => {
+    const config = NETWORK_CONFIG[network];
+    return `${config.explorer}/${type}/${identifier}?network=${config.explorerNetwork}`;
 };
 
-export const isContractsConfigured = () => {
-    return !!(MELTYFI_PACKAGE_ID && PROTOCOL_OBJECT_ID && CHOCOLATE_FACTORY_ID);
+export const isContractsConfigured = ({ packageId, protocolObjectId, chocolateFactoryId }: MeltyFiContracts) => {
+    return !!(packageId && protocolObjectId && chocolateFactoryId);
 };
@@ -0,0 +1,58 @@
+'use client';
+
+import { useMeltyFiDataSource } from '@/hooks/useMeltyFiDataSource';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import type { MeltyFiEventRecord } from '@/lib/data-source';
+import type { MeltyFiEventType } from '@/lib/meltyfi-events';
+import { useInfiniteQuery } from '@tanstack/react-query';
+import { useMemo } from 'react';
+
+export type ActivityItem = MeltyFiEventRecord;
+
+export const ACTIVITY_EVENT_TYPES: MeltyFiEventType[] = [
+    'LotteryCreated',
+    'WonkaBarsPurchased',
+    'LotteryResolved',
+    'FundsWithdrawn',
+    'ProtocolUpdated',
+];
+
+// Number of events read per feed page
+const ACTIVITY_PAGE_SIZE = 25;
+
+// Newest-first timeline of core events, optionally narrowed to a single event type
+export function useActivityFeed(eventType: MeltyFiEventType | 'all' = 'all') {
+    const dataSource = useMeltyFiDataSource();
+    const { network, contracts } = useMeltyFiNetwork();
+
+    const {
+        data,
+        fetchNextPage: fetchMoreActivity,
+        hasNextPage: hasMoreActivity = false,
+        isFetchingNextPage: isFetchingMoreActivity,
+        isLoading: isLoadingActivity,
+    } = useInfiniteQuery({
+        queryKey: ['activity', network, contracts.packageId, dataSource.kind, eventType],
+        queryFn: ({ pageParam }) => dataSource.getEvents({
+            eventType,
+            cursor: pageParam,
+            limit: ACTIVITY_PAGE_SIZE,
+        }),
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+        enabled: !!contracts.packageId,
+    });
+
+    const activity = useMemo(
+        () => data?.pages.flatMap((page) => page.events) ?? [],
+        [data]
+    );
+
+    return {
+        activity,
+        isLoadingActivity,
+        fetchMoreActivity,
+        hasMoreActivity,
+        isFetchingMoreActivity,
+    };
+}
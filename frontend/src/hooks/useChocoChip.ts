@@ -0,0 +1,150 @@
+'use client';
+
+import { useChocolateFactory } from '@/hooks/useChocolateFactory';
+import { useMeltyFiDataSource } from '@/hooks/useMeltyFiDataSource';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import {
+    fetchChocoChipMints,
+    fetchChocoChipSupply,
+    fetchIndexedUserChocoChipMints,
+    fetchMinterAuthorizations,
+    fetchUserChocoChipMints,
+    type MinterAuthorization
+} from '@/lib/choco-chip';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
+import type { EventId } from '@mysten/sui/client';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { useMemo } from 'react';
+
+export interface ChocoChipMinter {
+    address: string;
+    // Missing for the deployer, who is authorized in init without an event
+    authorization?: MinterAuthorization;
+}
+
+// ChocoChip metadata, supply, mint history and minters
+export function useChocoChip() {
+    const suiClient = useSuiClient();
+    const currentAccount = useCurrentAccount();
+    const dataSource = useMeltyFiDataSource();
+    const { network, config, contracts, types } = useMeltyFiNetwork();
+    const { chocolateFactory } = useChocolateFactory();
+    const indexerUrl = dataSource.kind === 'indexer' ? config.indexerUrl : undefined;
+
+    // Frozen at publish time, so it never needs a refetch
+    const { data: coinMetadata = null } = useQuery({
+        queryKey: ['coinMetadata', network, types.chocoChip],
+        queryFn: async () => {
+            try {
+                return await suiClient.getCoinMetadata({ coinType: types.chocoChip });
+            } catch (error) {
+                console.error('Error fetching ChocoChip metadata:', error);
+                return null;
+            }
+        },
+        enabled: !!contracts.packageId,
+        staleTime: Infinity,
+    });
+
+    const { data: supply = null, isLoading: isLoadingSupply } = useQuery({
+        queryKey: ['chocoChipSupply', network, contracts.chocolateFactoryId],
+        queryFn: async () => {
+            try {
+                return await fetchChocoChipSupply(suiClient, contracts.packageId, contracts.chocolateFactoryId);
+            } catch (error) {
+                console.error('Error fetching ChocoChip supply:', error);
+                return null;
+            }
+        },
+        enabled: !!contracts.packageId && !!contracts.chocolateFactoryId,
+        refetchInterval: 60000,
+    });
+
+    const {
+        data: mintPages,
+        fetchNextPage: fetchMoreMints,
+        hasNextPage: hasMoreMints = false,
+        isFetchingNextPage: isFetchingMoreMints,
+        isLoading: isLoadingMints,
+    } = useInfiniteQuery({
+        queryKey: ['chocoChipMints', network, contracts.packageId],
+        queryFn: ({ pageParam }) => fetchChocoChipMints(suiClient, contracts.packageId, pageParam),
+        initialPageParam: null as EventId | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+        enabled: !!contracts.packageId,
+    });
+
+    // Read per address rather than filtered from the loaded history, which may not reach back far enough
+    const userAddress = currentAccount?.address;
+    const {
+        data: userMintPages,
+        fetchNextPage: fetchMoreUserMints,
+        hasNextPage: hasMoreUserMints = false,
+        isFetchingNextPage: isFetchingMoreUserMints,
+        isLoading: isLoadingUserMints,
+    } = useInfiniteQuery({
+        queryKey: ['chocoChipMints', network, contracts.packageId, indexerUrl ? 'indexer' : 'transactions', userAddress],
+        queryFn: ({ pageParam }) => indexerUrl
+            ? fetchIndexedUserChocoChipMints(indexerUrl, userAddress!)
+            : fetchUserChocoChipMints(suiClient, contracts.packageId, userAddress!, pageParam),
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+        enabled: !!contracts.packageId && !!userAddress,
+    });
+
+    const { data: authorizations = [], isLoading: isLoadingMinters } = useQuery({
+        queryKey: ['chocoChipMinters', network, contracts.packageId],
+        queryFn: async () => {
+            try {
+                return await fetchMinterAuthorizations(suiClient, contracts.packageId);
+            } catch (error) {
+                console.error('Error fetching minter authorizations:', error);
+                return [];
+            }
+        },
+        enabled: !!contracts.packageId,
+    });
+
+    const mints = useMemo(
+        () => mintPages?.pages.flatMap((page) => page.mints) ?? [],
+        [mintPages]
+    );
+
+    const userMints = useMemo(
+        () => userMintPages?.pages.flatMap((page) => page.mints) ?? [],
+        [userMintPages]
+    );
+
+    // The factory's list is authoritative; events add who authorized each minter and when
+    const minters = useMemo((): ChocoChipMinter[] => {
+        const byMinter = new Map(authorizations.map((authorization) => [normalizeSuiAddress(authorization.minter), authorization]));
+        const addresses = chocolateFactory?.authorizedMinters ?? authorizations.map((authorization) => authorization.minter);
+
+        return addresses.map((address) => ({
+            address,
+            authorization: byMinter.get(normalizeSuiAddress(address)),
+        }));
+    }, [authorizations, chocolateFactory]);
+
+    return {
+        decimals: coinMetadata?.decimals ?? 9,
+        symbol: coinMetadata?.symbol ?? 'CHOC',
+        iconUrl: coinMetadata?.iconUrl ?? null,
+        totalSupply: supply?.totalSupply ?? chocolateFactory?.totalSupply ?? '0',
+        maxSupply: supply?.maxSupply ?? chocolateFactory?.maxSupply ?? '0',
+        isLoadingSupply,
+        mints,
+        isLoadingMints,
+        fetchMoreMints,
+        hasMoreMints,
+        isFetchingMoreMints,
+        userMints,
+        isLoadingUserMints,
+        fetchMoreUserMints,
+        hasMoreUserMints,
+        isFetchingMoreUserMints,
+        minters,
+        isLoadingMinters,
+    };
+}
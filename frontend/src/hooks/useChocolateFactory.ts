@@ -0,0 +1,54 @@
+'use client';
+
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { useSuiClient } from '@mysten/dapp-kit';
+import type { SuiObjectResponse } from '@mysten/sui/client';
+import { useQuery } from '@tanstack/react-query';
+
+export interface ChocolateFactory {
+    totalSupply: string;
+    maxSupply: string;
+    authorizedMinters: string[];
+}
+
+// Parse the shared choco_chip::ChocolateFactory object
+function parseChocolateFactory(obj: SuiObjectResponse): ChocolateFactory | null {
+    const content = obj.data?.content;
+    if (content?.dataType !== 'moveObject') return null;
+
+    const fields = content.fields as any;
+    return {
+        totalSupply: fields.total_supply?.toString() || '0',
+        maxSupply: fields.max_supply?.toString() || '0',
+        authorizedMinters: fields.authorized_minters ?? [],
+    };
+}
+
+// ChocoChip supply and minter list, shared through the query cache
+export function useChocolateFactory() {
+    const suiClient = useSuiClient();
+    const { network, contracts } = useMeltyFiNetwork();
+
+    const { data: chocolateFactory = null, isLoading } = useQuery({
+        queryKey: ['chocolateFactory', network, contracts.chocolateFactoryId],
+        queryFn: async () => {
+            try {
+                const factory = await suiClient.getObject({
+                    id: contracts.chocolateFactoryId,
+                    options: { showContent: true },
+                });
+                return parseChocolateFactory(factory);
+            } catch (error) {
+                console.error('Error fetching chocolate factory:', error);
+                return null;
+            }
+        },
+        enabled: !!contracts.chocolateFactoryId,
+        refetchInterval: 60000,
+    });
+
+    return {
+        chocolateFactory,
+        isLoadingChocolateFactory: isLoading,
+    };
+}
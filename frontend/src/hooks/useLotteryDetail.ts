@@ -0,0 +1,124 @@
+'use client';
+
+import { fetchCollateralNft, type Lottery } from '@/hooks/useMeltyFi';
+import { useMeltyFiDataSource } from '@/hooks/useMeltyFiDataSource';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { withCollateral } from '@/lib/meltyfi-objects';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import { useInfiniteQuery, useQuery } from '@tanstack/react-query';
+import { useMemo } from 'react';
+
+export type { LotteryParticipant } from '@/lib/meltyfi-objects';
+
+export interface LotteryPurchase {
+    digest: string;
+    buyer: string;
+    quantity: string;
+    totalCost: string;
+    timestamp: number;
+}
+
+// Number of transactions scanned per purchase history page
+const PURCHASE_PAGE_SIZE = 25;
+
+// A single lottery with its participants, collateral and purchase history
+export function useLotteryDetail(lotteryObjectId: string) {
+    const suiClient = useSuiClient();
+    const dataSource = useMeltyFiDataSource();
+    const { network, contracts } = useMeltyFiNetwork();
+
+    const { data, isLoading: isLoadingLottery, isError, refetch: retryLottery } = useQuery({
+        queryKey: ['lottery', network, contracts.packageId, dataSource.kind, lotteryObjectId],
+        // Sources only return Lottery objects from the configured package
+        queryFn: () => dataSource.getLottery(lotteryObjectId),
+        enabled: !!lotteryObjectId && !!contracts.packageId,
+        refetchInterval: 60000,
+    });
+
+    // Shares its cache entry with the lottery list
+    const { data: collateralNft } = useQuery({
+        queryKey: ['collateralNft', network, lotteryObjectId],
+        queryFn: async () => {
+            try {
+                return await fetchCollateralNft(suiClient, lotteryObjectId);
+            } catch (error) {
+                console.error('Error fetching collateral NFT:', error);
+                throw error;
+            }
+        },
+        enabled: !!data,
+        staleTime: Infinity,
+    });
+
+    // Every buy_wonka_bars call takes the lottery as input, so its transactions hold the full purchase history
+    const {
+        data: purchasePages,
+        fetchNextPage: fetchMorePurchases,
+        hasNextPage: hasMorePurchases = false,
+        isFetchingNextPage: isFetchingMorePurchases,
+        isLoading: isLoadingPurchases,
+    } = useInfiniteQuery({
+        queryKey: ['lotteryPurchases', network, lotteryObjectId],
+        queryFn: async ({ pageParam }) => {
+            const page = await suiClient.queryTransactionBlocks({
+                filter: { InputObject: lotteryObjectId },
+                options: { showEvents: true },
+                cursor: pageParam,
+                limit: PURCHASE_PAGE_SIZE,
+                order: 'descending',
+            });
+
+            const purchaseEventType = normalizeStructTag(`${contracts.packageId}::core::WonkaBarsPurchased`);
+            const purchases: LotteryPurchase[] = page.data.flatMap((tx) =>
+                (tx.events ?? [])
+                    .filter((event) => normalizeStructTag(event.type) === purchaseEventType)
+                    .map((event) => {
+                        const json = event.parsedJson as any;
+                        return {
+                            digest: tx.digest,
+                            buyer: json.buyer,
+                            quantity: String(json.quantity),
+                            totalCost: String(json.total_cost),
+                            timestamp: Number(event.timestampMs ?? tx.timestampMs ?? 0),
+                        };
+                    })
+            );
+
+            return { purchases, nextCursor: page.hasNextPage ? page.nextCursor ?? null : null };
+        },
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.nextCursor ?? undefined,
+        enabled: !!data,
+    });
+
+    const lottery = useMemo((): Lottery | null => {
+        return data ? withCollateral(data.lottery, collateralNft) : null;
+    }, [data, collateralNft]);
+
+    // Largest holders first
+    const participants = useMemo(() => [...(data?.participants ?? [])].sort((a, b) => {
+        const difference = BigInt(b.tickets) - BigInt(a.tickets);
+        return difference > BigInt(0) ? 1 : difference < BigInt(0) ? -1 : 0;
+    }), [data]);
+
+    const purchases = useMemo(
+        () => purchasePages?.pages.flatMap((page) => page.purchases) ?? [],
+        [purchasePages]
+    );
+
+    return {
+        lottery,
+        participants,
+        purchases,
+        isLoadingLottery,
+        // A failed read is not a missing lottery, so it gets its own state with a retry
+        lotteryError: !data && isError,
+        retryLottery,
+        notFound: !isLoadingLottery && !isError && !data,
+        isLoadingPurchases,
+        fetchMorePurchases,
+        hasMorePurchases,
+        isFetchingMorePurchases,
+    };
+}
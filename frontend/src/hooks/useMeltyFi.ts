@@ -1,51 +1,81 @@
 'use client';
 
+import { useTransactionPreview } from '@/components/providers/TransactionPreviewProvider';
+import { DEFAULT_GAS_BUDGET, getMeltyFiTypes } from '@/constants/contracts';
+import { useMeltyFiDataSource } from '@/hooks/useMeltyFiDataSource';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { toMeltyFiError } from '@/lib/errors';
 import {
-    CHOCO_CHIP_TYPE,
-    MELTYFI_PACKAGE_ID,
-    PROTOCOL_OBJECT_ID,
-    WONKA_BAR_TYPE
-} from '@/constants/contracts';
+    fetchCollateralNft,
+    parseLottery,
+    parseObjectContent,
+    withCollateral,
+    type Lottery,
+    type WonkaBar
+} from '@/lib/meltyfi-objects';
+import {
+    buildBuyWonkaBarsTx,
+    buildCancelLotteryTx,
+    buildClaimRewardsTx,
+    buildCreateLotteryTx,
+    buildResolveLotteryTx,
+    getWonkaBarsCost,
+    type MeltyFiTxConfig
+} from '@/lib/meltyfi-tx';
+import { TransactionCancelledError } from '@/lib/simulation';
+import { formatSuiAmount } from '@/lib/utils';
 import {
     useCurrentAccount,
     useSignAndExecuteTransaction,
     useSuiClient
 } from '@mysten/dapp-kit';
-import type { SuiObjectResponse } from '@mysten/sui/client';
-import { Transaction } from '@mysten/sui/transactions';
-import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import type {
+    SuiClient,
+    SuiObjectChange,
+    SuiObjectResponse,
+    SuiTransactionBlockResponse
+} from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+import { normalizeStructTag } from '@mysten/sui/utils';
+import {
+    keepPreviousData,
+    useInfiniteQuery,
+    useMutation,
+    useQueries,
+    useQuery,
+    useQueryClient
+} from '@tanstack/react-query';
 import { useMemo } from 'react';
 import { toast } from 'sonner';
 
-export interface Lottery {
+// Object types and parsers live in lib/meltyfi-objects so every data source can share them
+export {
+    fetchCollateralNft,
+    LOTTERY_STATES,
+    parseLottery,
+    parseObjectContent,
+    type CollateralNft,
+    type Lottery,
+    type LotteryState,
+    type WonkaBar
+} from '@/lib/meltyfi-objects';
+
+export interface LotteryReceipt {
     id: string;
     lotteryId: string;
     owner: string;
-    state: 'ACTIVE' | 'CANCELLED' | 'CONCLUDED';
-    createdAt: number;
-    expirationDate: number;
-    wonkaBarPrice: string;
-    maxSupply: string;
-    soldCount: string;
-    totalRaised: string;
-    winner?: string;
-    winningTicket?: string;
-    collateralNft: {
-        id: string;
-        name: string;
-        imageUrl: string;
-        collection?: string;
-        type?: string;
-    };
-    participants: number;
 }
 
-export interface WonkaBar {
-    id: string;
-    lotteryId: string;
-    owner: string;
-    ticketCount: string;
-    purchasedAt: number;
+export interface ManagedLottery extends Lottery {
+    receiptId: string;
+    // cancel_lottery only accepts the receipt from the address it was issued to
+    canCancel: boolean;
+}
+
+export interface CreatedLottery {
+    digest: string;
+    lotteryId?: string;
+    lotteryObjectId?: string;
 }
 
 export interface UserStats {
@@ -56,226 +86,244 @@ export interface UserStats {
     suiBalance: string;
 }
 
-// Helper function to parse object content
-function parseObjectContent(obj: SuiObjectResponse): any {
-    if (obj.data?.content?.dataType === 'moveObject') {
-        return (obj.data.content as any).fields;
+export type ClaimEligibility =
+    | { kind: 'nft' }
+    | { kind: 'refund'; amount: string }
+    | { kind: 'none'; reason: string };
+
+// Mirrors the checks in core::claim_rewards
+export function getClaimEligibility(lottery: Lottery, wonkaBar: WonkaBar, address: string): ClaimEligibility {
+    if (wonkaBar.owner !== address) {
+        return { kind: 'none', reason: 'Only the original buyer can claim this WonkaBar' };
+    }
+
+    switch (lottery.state) {
+        case 'ACTIVE':
+            return { kind: 'none', reason: 'Lottery is still in progress' };
+        case 'CONCLUDED':
+            if (lottery.winner !== address) {
+                return { kind: 'none', reason: 'Not the winning WonkaBar' };
+            }
+            if (lottery.nftClaimed) {
+                return { kind: 'none', reason: 'Prize already claimed' };
+            }
+            // The NFT type is needed to claim, so wait for the collateral lookup
+            return lottery.collateralNft.type
+                ? { kind: 'nft' }
+                : { kind: 'none', reason: 'Checking prize status…' };
+        case 'CANCELLED':
+        case 'EXPIRED':
+            return {
+                kind: 'refund',
+                amount: (BigInt(lottery.wonkaBarPrice) * BigInt(wonkaBar.ticketCount)).toString(),
+            };
     }
-    return null;
 }
 
-// Parse WonkaBar object
-function parseWonkaBar(obj: SuiObjectResponse): WonkaBar | null {
+// MeltyFiEventsProvider patches the cache as events arrive; these refetches only catch
+// what events cannot describe (new participants, transferred objects) or missed
+const SAFETY_REFETCH_INTERVAL = 60000;
+
+// Parse LotteryReceipt object
+function parseLotteryReceipt(obj: SuiObjectResponse): LotteryReceipt | null {
     const fields = parseObjectContent(obj);
     if (!fields || !obj.data?.objectId) return null;
 
-    try {
-        return {
-            id: obj.data.objectId,
-            lotteryId: fields.lottery_id?.toString() || '0',
-            owner: fields.owner || '',
-            ticketCount: fields.ticket_count?.toString() || '1',
-            purchasedAt: parseInt(fields.purchased_at || '0')
-        };
-    } catch (error) {
-        console.error('Error parsing WonkaBar:', error);
-        return null;
-    }
+    return {
+        id: obj.data.objectId,
+        lotteryId: fields.lottery_id?.toString() || '0',
+        owner: fields.owner || '',
+    };
 }
 
-export function useMeltyFi() {
+// Lotteries discovered after the first page was loaded, newest first
+interface NewLotteries {
+    lotteryObjectIds: string[];
+    cursor: string | null;
+}
+
+function lotteryCreatedEvent(packageId: string): string {
+    return `${packageId}::core::LotteryCreated`;
+}
+
+// Read the new lottery's ID and object ID from an executed create_lottery transaction
+function parseCreatedLottery(tx: SuiTransactionBlockResponse, packageId: string): CreatedLottery {
+    // The configured ID may be written in short form or another case than the node reports
+    const eventType = normalizeStructTag(lotteryCreatedEvent(packageId));
+    const lotteryType = normalizeStructTag(getMeltyFiTypes(packageId).lottery);
+    const event = tx.events?.find((e) => normalizeStructTag(e.type) === eventType);
+    const created = tx.objectChanges?.find((change): change is Extract<SuiObjectChange, { type: 'created' }> =>
+        change.type === 'created' && normalizeStructTag(change.objectType) === lotteryType
+    );
+
+    return {
+        digest: tx.digest,
+        lotteryId: (event?.parsedJson as any)?.lottery_id?.toString(),
+        lotteryObjectId: created?.objectId,
+    };
+}
+
+// Fetch every LotteryReceipt held by the owner
+async function fetchLotteryReceipts(suiClient: SuiClient, receiptType: string, owner: string): Promise<LotteryReceipt[]> {
+    const receipts: LotteryReceipt[] = [];
+    let cursor: string | null | undefined = null;
+    do {
+        const page = await suiClient.getOwnedObjects({
+            owner,
+            filter: { StructType: receiptType },
+            options: { showContent: true },
+            cursor,
+        });
+        receipts.push(...page.data
+            .map(parseLotteryReceipt)
+            .filter((receipt): receipt is LotteryReceipt => receipt !== null));
+        cursor = page.hasNextPage ? page.nextCursor : null;
+    } while (cursor);
+
+    return receipts;
+}
+
+// Surface a failed mutation as a decoded MeltyFi error, staying quiet when the user cancelled
+export function notifyError(action: string, error: Error, packageId: string) {
+    if (error instanceof TransactionCancelledError) return;
+
+    const meltyFiError = toMeltyFiError(error, packageId);
+    console.error(`Failed to ${action}:`, meltyFiError.cause ?? meltyFiError);
+    toast.error(meltyFiError.code === 'Unknown' && !meltyFiError.abort ? `Failed to ${action}` : meltyFiError.title, {
+        description: [meltyFiError.message, meltyFiError.suggestion].filter(Boolean).join(' '),
+    });
+}
+
+// Simulate, let the user review the outcome, then sign on the selected network
+export function useExecuteTransaction() {
     const currentAccount = useCurrentAccount();
-    const suiClient = useSuiClient();
-    const queryClient = useQueryClient();
+    const { config } = useMeltyFiNetwork();
     const { mutateAsync: signAndExecuteTransaction } = useSignAndExecuteTransaction();
+    const confirmTransaction = useTransactionPreview();
 
-    // Fetch all lotteries
-    const { data: lotteries = [], isLoading: isLoadingLotteries } = useQuery({
-        queryKey: ['lotteries'],
-        queryFn: async () => {
-            try {
-                // Fetch lottery creation events
-                const objects = await suiClient.queryEvents({
-                    query: {
-                        MoveEventType: `${MELTYFI_PACKAGE_ID}::core::LotteryCreated`
-                    },
-                    limit: 100,
-                    order: 'descending'
-                });
-
-                // Get lottery objects from events
-                const lotteryPromises = objects.data.map(async (event) => {
-                    try {
-                        const parsedJson = event.parsedJson as any;
-                        if (parsedJson?.lottery_id) {
-                            return {
-                                id: `lottery_${parsedJson.lottery_id}`,
-                                lotteryId: parsedJson.lottery_id?.toString() || '0',
-                                owner: parsedJson.owner || '',
-                                state: 'ACTIVE' as const,
-                                createdAt: Date.now(),
-                                expirationDate: parseInt(parsedJson.expiration_date || '0'),
-                                wonkaBarPrice: parsedJson.wonka_price?.toString() || '0',
-                                maxSupply: parsedJson.max_supply?.toString() || '0',
-                                soldCount: '0',
-                                totalRaised: '0',
-                                collateralNft: {
-                                    id: 'nft_placeholder',
-                                    name: 'Collateral NFT',
-                                    imageUrl: '/placeholder-nft.png',
-                                    collection: 'Unknown'
-                                },
-                                participants: 0
-                            } as Lottery;
-                        }
-                        return null;
-                    } catch (err) {
-                        console.error('Error processing lottery event:', err);
-                        return null;
-                    }
-                });
-
-                const resolved = await Promise.all(lotteryPromises);
-                return resolved.filter((lottery): lottery is Lottery => lottery !== null);
-            } catch (error) {
-                console.error('Error fetching lotteries:', error);
-                return [];
-            }
-        },
-        refetchInterval: 10000,
-    });
+    return async (tx: Transaction, title: string) => {
+        if (!currentAccount?.address) throw new Error('Wallet not connected');
+
+        tx.setSenderIfNotSet(currentAccount.address);
+        const approved = await confirmTransaction(tx, title);
+        if (!approved) throw new TransactionCancelledError();
+
+        return signAndExecuteTransaction({ transaction: tx, chain: config.chainId });
+    };
+}
+
+// The connected account's WonkaBars
+export function useUserWonkaBars() {
+    const currentAccount = useCurrentAccount();
+    const dataSource = useMeltyFiDataSource();
+    const { network, contracts } = useMeltyFiNetwork();
 
-    // Fetch user's WonkaBars
     const { data: userWonkaBars = [], isLoading: isLoadingWonkaBars } = useQuery({
-        queryKey: ['wonkaBars', currentAccount?.address],
+        queryKey: ['wonkaBars', network, contracts.packageId, currentAccount?.address],
         queryFn: async () => {
             if (!currentAccount?.address) return [];
 
             try {
-                const objects = await suiClient.getOwnedObjects({
-                    owner: currentAccount.address,
-                    filter: { StructType: WONKA_BAR_TYPE },
-                    options: {
-                        showContent: true,
-                        showDisplay: true,
-                        showType: true,
-                    },
-                });
-
-                return objects.data
-                    .map((obj: any) => parseWonkaBar(obj))
-                    .filter((wonkaBar): wonkaBar is WonkaBar => wonkaBar !== null);
+                return await dataSource.getUserWonkaBars(currentAccount.address);
             } catch (error) {
                 console.error('Error fetching WonkaBars:', error);
                 return [];
             }
         },
         enabled: !!currentAccount?.address,
-        refetchInterval: 15000,
+        refetchInterval: SAFETY_REFETCH_INTERVAL,
     });
 
-    // Fetch user's ChocoChip balance
-    const { data: chocoChipBalance = '0' } = useQuery({
-        queryKey: ['chocoChipBalance', currentAccount?.address],
-        queryFn: async () => {
-            if (!currentAccount?.address) return '0';
+    return { userWonkaBars, isLoadingWonkaBars };
+}
 
-            try {
-                const balance = await suiClient.getBalance({
-                    owner: currentAccount.address,
-                    coinType: CHOCO_CHIP_TYPE,
-                });
-                return balance.totalBalance;
-            } catch (error) {
-                console.error('Error fetching ChocoChip balance:', error);
-                return '0';
-            }
-        },
-        enabled: !!currentAccount?.address,
-    });
+// The connected account's SUI and ChocoChip balances
+export function useUserBalances() {
+    const currentAccount = useCurrentAccount();
+    const dataSource = useMeltyFiDataSource();
+    const { network, contracts } = useMeltyFiNetwork();
 
-    // Fetch user's SUI balance
-    const { data: suiBalance = '0' } = useQuery({
-        queryKey: ['suiBalance', currentAccount?.address],
+    // One request reads both, so mutations and events invalidate them together
+    const { data: balances } = useQuery({
+        queryKey: ['balances', network, contracts.packageId, currentAccount?.address],
         queryFn: async () => {
-            if (!currentAccount?.address) return '0';
+            if (!currentAccount?.address) return null;
 
             try {
-                const balance = await suiClient.getBalance({
-                    owner: currentAccount.address,
-                });
-                return balance.totalBalance;
+                return await dataSource.getBalances(currentAccount.address);
             } catch (error) {
-                console.error('Error fetching SUI balance:', error);
-                return '0';
+                console.error('Error fetching balances:', error);
+                return null;
             }
         },
         enabled: !!currentAccount?.address,
     });
 
-    // Calculate user stats
-    const userStats = useMemo((): UserStats | null => {
-        if (!currentAccount?.address) return null;
+    return {
+        suiBalance: balances?.sui ?? '0',
+        chocoChipBalance: balances?.chocoChip ?? '0',
+    };
+}
 
-        const userLotteries = lotteries.filter(lottery => lottery.owner === currentAccount.address);
-        const activeLotteries = userLotteries.filter(lottery =>
-            lottery.state === 'ACTIVE' && Date.now() < lottery.expirationDate
-        );
+// Lottery transactions, for pages that act on a lottery without listing them all
+export function useMeltyFiActions() {
+    const currentAccount = useCurrentAccount();
+    const suiClient = useSuiClient();
+    const { network, contracts, types } = useMeltyFiNetwork();
+    const queryClient = useQueryClient();
+    const executeTransaction = useExecuteTransaction();
 
-        return {
-            activeLotteries: activeLotteries.length,
-            totalLotteries: userLotteries.length,
-            totalWonkaBars: userWonkaBars.length,
-            chocoChipBalance,
-            suiBalance,
-        };
-    }, [lotteries, userWonkaBars, chocoChipBalance, suiBalance, currentAccount?.address]);
+    const txConfig: MeltyFiTxConfig = {
+        packageId: contracts.packageId,
+        protocolObjectId: contracts.protocolObjectId,
+    };
 
     // Create lottery mutation
     const { mutateAsync: createLottery, isPending: isCreatingLottery } = useMutation({
         mutationFn: async ({
             nftId,
+            nftType,
             expirationDate,
             wonkaBarPrice,
             maxSupply,
         }: {
             nftId: string;
+            nftType: string;
             expirationDate: number;
             wonkaBarPrice: string;
             maxSupply: string;
-        }) => {
+        }): Promise<CreatedLottery> => {
             if (!currentAccount?.address) throw new Error('Wallet not connected');
 
-            const tx = new Transaction();
-
-            // Note: This is a simplified version - you'll need to adjust based on your actual Move function signature
-            tx.moveCall({
-                target: `${MELTYFI_PACKAGE_ID}::core::create_lottery`,
-                arguments: [
-                    tx.object(PROTOCOL_OBJECT_ID),
-                    tx.object(nftId),
-                    tx.pure.u64(expirationDate),
-                    tx.pure.u64(wonkaBarPrice),
-                    tx.pure.u64(maxSupply),
-                    tx.object('0x6'), // Clock object
-                ],
+            const tx = buildCreateLotteryTx(txConfig, {
+                nftId,
+                nftType,
+                owner: currentAccount.address,
+                expirationDate,
+                wonkaBarPrice,
+                maxSupply,
             });
 
-            const result = await signAndExecuteTransaction({
-                transaction: tx
+            const result = await executeTransaction(tx, 'Create Lottery');
+
+            // Wait for indexing so the created lottery can be read back from events and object changes
+            const executed = await suiClient.waitForTransaction({
+                digest: result.digest,
+                options: { showEvents: true, showObjectChanges: true },
             });
 
-            return result;
+            return parseCreatedLottery(executed, contracts.packageId);
         },
-        onSuccess: () => {
+        onSuccess: (created) => {
+            queryClient.invalidateQueries({ queryKey: ['newLotteries'] });
             queryClient.invalidateQueries({ queryKey: ['lotteries'] });
-            queryClient.invalidateQueries({ queryKey: ['suiBalance'] });
-            toast.success('Lottery created successfully!');
-        },
-        onError: (error) => {
-            console.error('Failed to create lottery:', error);
-            toast.error('Failed to create lottery');
+            queryClient.invalidateQueries({ queryKey: ['lotteryReceipts'] });
+            queryClient.invalidateQueries({ queryKey: ['balances'] });
+            toast.success(created.lotteryId
+                ? `Lottery #${created.lotteryId} created successfully!`
+                : 'Lottery created successfully!');
         },
+        onError: (error) => notifyError('create lottery', error, contracts.packageId),
     });
 
     // Buy WonkaBars mutation
@@ -283,43 +331,40 @@ export function useMeltyFi() {
         mutationFn: async ({
             lotteryId,
             quantity,
-            payment,
+            wonkaBarPrice,
         }: {
             lotteryId: string;
             quantity: number;
-            payment: string;
+            wonkaBarPrice: string;
         }) => {
             if (!currentAccount?.address) throw new Error('Wallet not connected');
 
-            const tx = new Transaction();
-
-            tx.moveCall({
-                target: `${MELTYFI_PACKAGE_ID}::core::buy_wonka_bars`,
-                arguments: [
-                    tx.object(PROTOCOL_OBJECT_ID),
-                    tx.object(lotteryId),
-                    tx.object(payment),
-                    tx.pure.u64(quantity),
-                    tx.object('0x6'), // Clock object
-                ],
-            });
+            const cost = getWonkaBarsCost(wonkaBarPrice, quantity);
+            const balance = await suiClient.getBalance({ owner: currentAccount.address });
+            if (BigInt(balance.totalBalance) < cost + BigInt(DEFAULT_GAS_BUDGET)) {
+                throw new Error(`Insufficient SUI balance: ${formatSuiAmount(cost)} SUI plus gas required`);
+            }
 
-            const result = await signAndExecuteTransaction({
-                transaction: tx
+            const tx = buildBuyWonkaBarsTx(txConfig, {
+                lotteryId,
+                quantity,
+                wonkaBarPrice,
+                buyer: currentAccount.address,
             });
 
+            const result = await executeTransaction(tx, 'Buy WonkaBars');
+
             return result;
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['lotteries'] });
+            queryClient.invalidateQueries({ queryKey: ['lottery'] });
+            queryClient.invalidateQueries({ queryKey: ['lotteryPurchases'] });
             queryClient.invalidateQueries({ queryKey: ['wonkaBars'] });
-            queryClient.invalidateQueries({ queryKey: ['suiBalance'] });
+            queryClient.invalidateQueries({ queryKey: ['balances'] });
             toast.success('WonkaBars purchased successfully!');
         },
-        onError: (error) => {
-            console.error('Error buying WonkaBars:', error);
-            toast.error('Failed to buy WonkaBars');
-        },
+        onError: (error) => notifyError('buy WonkaBars', error, contracts.packageId),
     });
 
     // Resolve lottery mutation (for lottery owners or admin)
@@ -327,95 +372,327 @@ export function useMeltyFi() {
         mutationFn: async ({ lotteryId }: { lotteryId: string }) => {
             if (!currentAccount?.address) throw new Error('Wallet not connected');
 
-            const tx = new Transaction();
-
-            tx.moveCall({
-                target: `${MELTYFI_PACKAGE_ID}::core::resolve_lottery`,
-                arguments: [
-                    tx.object(PROTOCOL_OBJECT_ID),
-                    tx.object(lotteryId),
-                    tx.object('0x8'), // Random object
-                    tx.object('0x6'), // Clock object
-                ],
-            });
+            const tx = buildResolveLotteryTx(txConfig, { lotteryId });
 
-            const result = await signAndExecuteTransaction({
-                transaction: tx
-            });
+            const result = await executeTransaction(tx, 'Resolve Lottery');
 
             return result;
         },
         onSuccess: () => {
             queryClient.invalidateQueries({ queryKey: ['lotteries'] });
+            queryClient.invalidateQueries({ queryKey: ['lottery'] });
             queryClient.invalidateQueries({ queryKey: ['wonkaBars'] });
             toast.success('Lottery resolved successfully!');
         },
-        onError: (error) => {
-            console.error('Error resolving lottery:', error);
-            toast.error('Failed to resolve lottery');
+        onError: (error) => notifyError('resolve lottery', error, contracts.packageId),
+    });
+
+    // Cancel lottery mutation (owner repays total_raised using their LotteryReceipt)
+    const { mutateAsync: cancelLottery, isPending: isCancellingLottery } = useMutation({
+        mutationFn: async ({ lottery }: { lottery: Lottery }) => {
+            if (!currentAccount?.address) throw new Error('Wallet not connected');
+
+            // Repayment must cover total_raised at execution time, so read it from the live object
+            const live = parseLottery(await suiClient.getObject({
+                id: lottery.id,
+                options: { showContent: true },
+            }));
+            if (!live) throw new Error('Lottery not found');
+            if (live.state !== 'ACTIVE') throw new Error('Only active lotteries can be cancelled');
+
+            const receipts = await fetchLotteryReceipts(suiClient, types.lotteryReceipt, currentAccount.address);
+            const receipt = receipts.find((r) => r.lotteryId === live.lotteryId);
+            if (!receipt) throw new Error('You do not hold the receipt for this lottery');
+            if (receipt.owner !== currentAccount.address) {
+                throw new Error('This receipt was issued to another address and cannot cancel the lottery');
+            }
+
+            const balance = await suiClient.getBalance({ owner: currentAccount.address });
+            if (BigInt(balance.totalBalance) < BigInt(live.totalRaised) + BigInt(DEFAULT_GAS_BUDGET)) {
+                throw new Error(`Insufficient SUI balance: ${formatSuiAmount(live.totalRaised)} SUI plus gas required`);
+            }
+
+            const tx = buildCancelLotteryTx(txConfig, {
+                lotteryId: live.id,
+                receiptId: receipt.id,
+                repayment: live.totalRaised,
+            });
+
+            const result = await executeTransaction(tx, 'Cancel Lottery');
+
+            return result;
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['lotteries'] });
+            queryClient.invalidateQueries({ queryKey: ['lottery'] });
+            queryClient.invalidateQueries({ queryKey: ['balances'] });
+            queryClient.invalidateQueries({ queryKey: ['lotteryReceipts'] });
+            toast.success('Lottery cancelled successfully!');
         },
+        onError: (error) => notifyError('cancel lottery', error, contracts.packageId),
     });
 
-    // Redeem WonkaBar mutation (for winners)
-    const { mutateAsync: redeemWonkaBars, isPending: isRedeemingWonkaBars } = useMutation({
+    // Claim rewards mutation (NFT for the winner, refund for cancelled/expired lotteries)
+    const { mutateAsync: claimRewards, isPending: isClaimingRewards } = useMutation({
         mutationFn: async ({
-            lotteryId,
-            wonkaBarId,
+            lottery,
+            wonkaBar,
         }: {
-            lotteryId: string;
-            wonkaBarId: string;
+            lottery: Lottery;
+            wonkaBar: WonkaBar;
         }) => {
             if (!currentAccount?.address) throw new Error('Wallet not connected');
 
-            const tx = new Transaction();
+            const eligibility = getClaimEligibility(lottery, wonkaBar, currentAccount.address);
+            if (eligibility.kind === 'none') throw new Error(eligibility.reason);
 
-            // This function would need to be implemented in your Move contract
-            tx.moveCall({
-                target: `${MELTYFI_PACKAGE_ID}::core::redeem_wonka_bar`,
-                arguments: [
-                    tx.object(PROTOCOL_OBJECT_ID),
-                    tx.object(lotteryId),
-                    tx.object(wonkaBarId),
-                ],
+            const tx = buildClaimRewardsTx(txConfig, {
+                lotteryId: lottery.id,
+                wonkaBarId: wonkaBar.id,
+                // Once the NFT is gone any key + store type satisfies claim_rewards, as nothing is returned
+                nftType: lottery.collateralNft.type || types.wonkaBar,
+                isWinner: eligibility.kind === 'nft',
+                claimer: currentAccount.address,
             });
 
-            const result = await signAndExecuteTransaction({
-                transaction: tx
-            });
+            const result = await executeTransaction(tx, 'Claim Rewards');
 
-            return result;
+            return { result, eligibility };
         },
-        onSuccess: () => {
+        onSuccess: ({ eligibility }, { lottery }) => {
             queryClient.invalidateQueries({ queryKey: ['lotteries'] });
+            queryClient.invalidateQueries({ queryKey: ['lottery'] });
+            queryClient.invalidateQueries({ queryKey: ['collateralNft', network, lottery.id] });
             queryClient.invalidateQueries({ queryKey: ['wonkaBars'] });
-            queryClient.invalidateQueries({ queryKey: ['suiBalance'] });
-            queryClient.invalidateQueries({ queryKey: ['chocoChipBalance'] });
-            toast.success('WonkaBar redeemed successfully!');
+            queryClient.invalidateQueries({ queryKey: ['balances'] });
+            toast.success(eligibility.kind === 'nft'
+                ? 'NFT claimed successfully!'
+                : 'Refund claimed successfully!');
+        },
+        onError: (error) => notifyError('claim rewards', error, contracts.packageId),
+    });
+
+    return {
+        createLottery,
+        isCreatingLottery,
+        buyWonkaBars,
+        isBuyingWonkaBars,
+        resolveLottery,
+        isResolvingLottery,
+        cancelLottery,
+        isCancellingLottery,
+        claimRewards,
+        isClaimingRewards,
+    };
+}
+
+export function useMeltyFi() {
+    const currentAccount = useCurrentAccount();
+    const suiClient = useSuiClient();
+    const dataSource = useMeltyFiDataSource();
+    const { network, contracts, types } = useMeltyFiNetwork();
+    const queryClient = useQueryClient();
+    const { userWonkaBars, isLoadingWonkaBars } = useUserWonkaBars();
+    const { suiBalance, chocoChipBalance } = useUserBalances();
+    const actions = useMeltyFiActions();
+
+    // Discover lotteries page by page, newest first.
+    // Pages are never refetched: new lotteries are picked up by the query below.
+    // Every query key is scoped by network and package so switching or redeploying never mixes
+    // deployments, and by data source because cursors only mean something to the source that issued them.
+    const {
+        data: lotteryPages,
+        fetchNextPage: fetchMoreLotteries,
+        hasNextPage: hasMoreLotteries = false,
+        isFetchingNextPage: isFetchingMoreLotteries,
+        isLoading: isLoadingLotteryPages,
+    } = useInfiniteQuery({
+        queryKey: ['lotteryPages', network, contracts.packageId, dataSource.kind],
+        queryFn: async ({ pageParam }) => {
+            try {
+                return await dataSource.listLotteries({ direction: 'older', cursor: pageParam });
+            } catch (error) {
+                console.error('Error fetching lottery page:', error);
+                throw error;
+            }
         },
-        onError: (error) => {
-            console.error('Error redeeming WonkaBar:', error);
-            toast.error('Failed to redeem WonkaBar');
+        initialPageParam: null as string | null,
+        getNextPageParam: (lastPage) => lastPage.hasNextPage ? lastPage.nextCursor : undefined,
+        staleTime: Infinity,
+    });
+
+    // Fetch lotteries created since the newest one we have seen, when a LotteryCreated event arrives
+    const newestSeenCursor = lotteryPages?.pages[0]?.newestCursor ?? null;
+    const { data: newLotteries } = useQuery({
+        queryKey: ['newLotteries', network, contracts.packageId, dataSource.kind],
+        queryFn: async () => {
+            const previous = queryClient.getQueryData<NewLotteries>(['newLotteries', network, contracts.packageId, dataSource.kind])
+                ?? { lotteryObjectIds: [], cursor: newestSeenCursor };
+            try {
+                const page = await dataSource.listLotteries({ direction: 'newer', cursor: previous.cursor });
+                if (page.lotteryObjectIds.length === 0) return previous;
+                return {
+                    lotteryObjectIds: [...page.lotteryObjectIds, ...previous.lotteryObjectIds],
+                    cursor: page.newestCursor,
+                };
+            } catch (error) {
+                console.error('Error fetching new lotteries:', error);
+                return previous;
+            }
         },
+        enabled: !!lotteryPages,
+        refetchInterval: SAFETY_REFETCH_INTERVAL,
     });
 
+    const lotteryObjectIds = useMemo(() => [...new Set([
+        ...(newLotteries?.lotteryObjectIds ?? []),
+        ...(lotteryPages?.pages.flatMap((page) => page.lotteryObjectIds) ?? []),
+    ])], [newLotteries, lotteryPages]);
+
+    // Hydrate discovered lotteries. The key shares the 'lotteries' prefix
+    // that MeltyFiEventsProvider patches as events arrive.
+    const { data: lotteryObjects = [], isLoading: isLoadingLotteryObjects } = useQuery({
+        queryKey: ['lotteries', network, contracts.packageId, dataSource.kind, lotteryObjectIds],
+        queryFn: async () => {
+            try {
+                return await dataSource.getLotteries(lotteryObjectIds);
+            } catch (error) {
+                console.error('Error fetching lotteries:', error);
+                return [];
+            }
+        },
+        enabled: lotteryObjectIds.length > 0,
+        placeholderData: keepPreviousData,
+        refetchInterval: SAFETY_REFETCH_INTERVAL,
+    });
+
+    // Fetch user's LotteryReceipts, which carry the right to manage a lottery
+    const { data: lotteryReceipts = [], isLoading: isLoadingReceipts } = useQuery({
+        queryKey: ['lotteryReceipts', network, contracts.packageId, currentAccount?.address],
+        queryFn: async () => {
+            if (!currentAccount?.address) return [];
+
+            try {
+                return await fetchLotteryReceipts(suiClient, types.lotteryReceipt, currentAccount.address);
+            } catch (error) {
+                console.error('Error fetching LotteryReceipts:', error);
+                return [];
+            }
+        },
+        enabled: !!currentAccount?.address,
+        refetchInterval: SAFETY_REFETCH_INTERVAL,
+    });
+
+    // Receipts and WonkaBars can refer to lotteries on list pages that have not been loaded, so
+    // read those lotteries directly. The key shares the 'lotteries' prefix that events patch.
+    const userLotteryIds = useMemo(() => [...new Set([
+        ...lotteryReceipts.map((receipt) => receipt.lotteryId),
+        ...userWonkaBars.map((wonkaBar) => wonkaBar.lotteryId),
+    ])].sort(), [lotteryReceipts, userWonkaBars]);
+    const { data: userLotteryObjects = [], isLoading: isLoadingUserLotteries } = useQuery({
+        queryKey: ['lotteries', network, contracts.packageId, dataSource.kind, 'byLotteryId', userLotteryIds],
+        queryFn: async () => {
+            try {
+                return await dataSource.getLotteriesByLotteryId(userLotteryIds);
+            } catch (error) {
+                console.error('Error fetching user lotteries:', error);
+                return [];
+            }
+        },
+        enabled: userLotteryIds.length > 0,
+        placeholderData: keepPreviousData,
+        refetchInterval: SAFETY_REFETCH_INTERVAL,
+    });
+
+    const collateralObjectIds = useMemo(() => [...new Set([
+        ...lotteryObjectIds,
+        ...userLotteryObjects.map((lottery) => lottery.id),
+    ])], [lotteryObjectIds, userLotteryObjects]);
+
+    // Collateral never changes while it is held, so each lottery's NFT is fetched once.
+    // Failures are not cached as null, which would read as a claimed prize.
+    const collateralNfts = useQueries({
+        queries: collateralObjectIds.map((lotteryObjectId) => ({
+            queryKey: ['collateralNft', network, lotteryObjectId],
+            queryFn: async () => {
+                try {
+                    return await fetchCollateralNft(suiClient, lotteryObjectId);
+                } catch (error) {
+                    console.error('Error fetching collateral NFT:', error);
+                    throw error;
+                }
+            },
+            staleTime: Infinity,
+        })),
+        combine: (results) => Object.fromEntries(
+            results.map((result, index) => [collateralObjectIds[index], result.data])
+        ),
+    });
+
+    const lotteries = useMemo(
+        () => lotteryObjects.map((lottery) => withCollateral(lottery, collateralNfts[lottery.id])),
+        [lotteryObjects, collateralNfts]
+    );
+
+    const isLoadingLotteries = isLoadingLotteryPages || isLoadingLotteryObjects;
+
+    // Lotteries the user manages or holds WonkaBars in, whichever list page they are on
+    const userLotteries = useMemo(
+        () => userLotteryObjects.map((lottery) => withCollateral(lottery, collateralNfts[lottery.id])),
+        [userLotteryObjects, collateralNfts]
+    );
+
+    // Lotteries the user holds a receipt for, regardless of who created them, newest first
+    const managedLotteries = useMemo((): ManagedLottery[] => {
+        const lotteriesByLotteryId = new Map(userLotteries.map((lottery) => [lottery.lotteryId, lottery]));
+
+        return [...lotteryReceipts].sort((a, b) => Number(b.lotteryId) - Number(a.lotteryId)).flatMap((receipt) => {
+            const lottery = lotteriesByLotteryId.get(receipt.lotteryId);
+            if (!lottery) return [];
+            return [{
+                ...lottery,
+                receiptId: receipt.id,
+                canCancel: receipt.owner === currentAccount?.address,
+            }];
+        });
+    }, [userLotteries, lotteryReceipts, currentAccount?.address]);
+
+    // Calculate user stats
+    const userStats = useMemo((): UserStats | null => {
+        if (!currentAccount?.address) return null;
+
+        const activeLotteries = managedLotteries.filter(lottery =>
+            lottery.state === 'ACTIVE' && Date.now() < lottery.expirationDate
+        );
+
+        return {
+            activeLotteries: activeLotteries.length,
+            totalLotteries: managedLotteries.length,
+            totalWonkaBars: userWonkaBars.length,
+            chocoChipBalance,
+            suiBalance,
+        };
+    }, [managedLotteries, userWonkaBars, chocoChipBalance, suiBalance, currentAccount?.address]);
+
     return {
         // Data
         lotteries,
+        managedLotteries,
+        userLotteries,
         userWonkaBars,
         userStats,
 
         // Loading states
         isLoadingLotteries,
         isLoadingWonkaBars,
+        isLoadingReceipts: isLoadingReceipts || isLoadingUserLotteries,
+
+        // Pagination
+        fetchMoreLotteries,
+        hasMoreLotteries,
+        isFetchingMoreLotteries,
 
         // Mutations
-        createLottery,
-        isCreatingLottery,
-        buyWonkaBars,
-        isBuyingWonkaBars,
-        resolveLottery,
-        isResolvingLottery,
-        redeemWonkaBars,
-        isRedeemingWonkaBars,
+        ...actions,
     };
 }
\ No newline at end of file
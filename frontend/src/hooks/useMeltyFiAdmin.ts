@@ -0,0 +1,162 @@
+'use client';
+
+import { useChocolateFactory } from '@/hooks/useChocolateFactory';
+import { notifyError, useExecuteTransaction } from '@/hooks/useMeltyFi';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { useProtocolStatus } from '@/hooks/useProtocolStatus';
+import {
+    buildAuthorizeChocoMinterTx,
+    buildSetProtocolPauseTx,
+    buildWithdrawProtocolFeesTx,
+    type MeltyFiTxConfig
+} from '@/lib/meltyfi-tx';
+import { formatSuiAmount } from '@/lib/utils';
+import { useCurrentAccount, useSuiClient } from '@mysten/dapp-kit';
+import type { SuiClient } from '@mysten/sui/client';
+import { isValidSuiAddress, normalizeStructTag, normalizeSuiAddress } from '@mysten/sui/utils';
+import { useMutation, useQuery, useQueryClient } from '@tanstack/react-query';
+import { toast } from 'sonner';
+
+// True when the object exists, has the expected type and is owned directly by the address
+async function isCapabilityOwner(suiClient: SuiClient, objectId: string, type: string, address: string): Promise<boolean> {
+    const obj = await suiClient.getObject({
+        id: objectId,
+        options: { showOwner: true, showType: true },
+    });
+
+    const owner = obj.data?.owner;
+    return !!obj.data?.type
+        && normalizeStructTag(obj.data.type) === normalizeStructTag(type)
+        && !!owner && typeof owner === 'object'
+        && 'AddressOwner' in owner
+        && normalizeSuiAddress(owner.AddressOwner) === normalizeSuiAddress(address);
+}
+
+// Whether the connected wallet holds the AdminCap and/or the FactoryAdmin
+export function useAdminAccess() {
+    const currentAccount = useCurrentAccount();
+    const suiClient = useSuiClient();
+    const { network, contracts, types } = useMeltyFiNetwork();
+
+    const { data, isLoading } = useQuery({
+        queryKey: ['adminAccess', network, currentAccount?.address, contracts.adminCapId, contracts.factoryAdminId],
+        queryFn: async () => {
+            if (!currentAccount?.address) return { isProtocolAdmin: false, isFactoryAdmin: false };
+
+            const [isProtocolAdmin, isFactoryAdmin] = await Promise.all([
+                contracts.adminCapId
+                    ? isCapabilityOwner(suiClient, contracts.adminCapId, types.adminCap, currentAccount.address).catch(() => false)
+                    : false,
+                contracts.factoryAdminId
+                    ? isCapabilityOwner(suiClient, contracts.factoryAdminId, types.factoryAdmin, currentAccount.address).catch(() => false)
+                    : false,
+            ]);
+            return { isProtocolAdmin, isFactoryAdmin };
+        },
+        enabled: !!currentAccount?.address && !!contracts.packageId,
+    });
+
+    const isProtocolAdmin = data?.isProtocolAdmin ?? false;
+    const isFactoryAdmin = data?.isFactoryAdmin ?? false;
+
+    return {
+        isProtocolAdmin,
+        isFactoryAdmin,
+        isAdmin: isProtocolAdmin || isFactoryAdmin,
+        isCheckingAdminAccess: !!currentAccount?.address && isLoading,
+    };
+}
+
+// Admin actions that previously required the Sui CLI
+export function useMeltyFiAdmin() {
+    const { contracts } = useMeltyFiNetwork();
+    const queryClient = useQueryClient();
+    const executeTransaction = useExecuteTransaction();
+    const access = useAdminAccess();
+    const { protocolStatus } = useProtocolStatus();
+    const { chocolateFactory, isLoadingChocolateFactory } = useChocolateFactory();
+
+    const txConfig: MeltyFiTxConfig = {
+        packageId: contracts.packageId,
+        protocolObjectId: contracts.protocolObjectId,
+    };
+
+    const invalidateProtocol = () => {
+        queryClient.invalidateQueries({ queryKey: ['protocolStatus'] });
+        queryClient.invalidateQueries({ queryKey: ['protocolStats'] });
+    };
+
+    const { mutateAsync: setProtocolPause, isPending: isSettingPause } = useMutation({
+        mutationFn: async ({ paused }: { paused: boolean }) => {
+            if (!access.isProtocolAdmin) throw new Error('The connected wallet does not hold the AdminCap');
+
+            const tx = buildSetProtocolPauseTx(txConfig, { adminCapId: contracts.adminCapId, paused });
+            return executeTransaction(tx, paused ? 'Pause Protocol' : 'Unpause Protocol');
+        },
+        onSuccess: (_result, { paused }) => {
+            invalidateProtocol();
+            toast.success(paused ? 'Protocol paused' : 'Protocol unpaused');
+        },
+        onError: (error) => notifyError('update protocol pause', error, contracts.packageId),
+    });
+
+    const { mutateAsync: withdrawProtocolFees, isPending: isWithdrawingFees } = useMutation({
+        mutationFn: async ({ amount }: { amount: string }) => {
+            if (!access.isProtocolAdmin) throw new Error('The connected wallet does not hold the AdminCap');
+            if (BigInt(amount) <= BigInt(0)) throw new Error('Amount must be greater than zero');
+            if (protocolStatus && BigInt(amount) > BigInt(protocolStatus.treasury)) {
+                throw new Error(`Treasury only holds ${formatSuiAmount(protocolStatus.treasury)} SUI`);
+            }
+
+            const tx = buildWithdrawProtocolFeesTx(txConfig, { adminCapId: contracts.adminCapId, amount });
+            return executeTransaction(tx, 'Withdraw Protocol Fees');
+        },
+        onSuccess: () => {
+            invalidateProtocol();
+            queryClient.invalidateQueries({ queryKey: ['balances'] });
+            toast.success('Protocol fees withdrawn');
+        },
+        onError: (error) => notifyError('withdraw protocol fees', error, contracts.packageId),
+    });
+
+    const { mutateAsync: authorizeChocoMinter, isPending: isAuthorizingMinter } = useMutation({
+        mutationFn: async ({ minter }: { minter: string }) => {
+            if (!access.isFactoryAdmin) throw new Error('The connected wallet does not hold the FactoryAdmin');
+            if (!isValidSuiAddress(minter)) throw new Error('Enter a valid Sui address');
+
+            // authorize_minter aborts for an address that is already a minter
+            const normalized = normalizeSuiAddress(minter);
+            if (chocolateFactory?.authorizedMinters.some((existing) => normalizeSuiAddress(existing) === normalized)) {
+                throw new Error('This address is already an authorized minter');
+            }
+
+            const tx = buildAuthorizeChocoMinterTx(txConfig, {
+                chocolateFactoryId: contracts.chocolateFactoryId,
+                factoryAdminId: contracts.factoryAdminId,
+                minter: normalized,
+            });
+            return executeTransaction(tx, 'Authorize ChocoChip Minter');
+        },
+        onSuccess: () => {
+            queryClient.invalidateQueries({ queryKey: ['chocolateFactory'] });
+            queryClient.invalidateQueries({ queryKey: ['chocoChipMinters'] });
+            toast.success('Minter authorized');
+        },
+        onError: (error) => notifyError('authorize minter', error, contracts.packageId),
+    });
+
+    return {
+        ...access,
+        treasury: protocolStatus?.treasury ?? '0',
+        isPaused: protocolStatus?.paused ?? false,
+        authorizedMinters: chocolateFactory?.authorizedMinters ?? [],
+        isLoadingChocolateFactory,
+
+        setProtocolPause,
+        isSettingPause,
+        withdrawProtocolFees,
+        isWithdrawingFees,
+        authorizeChocoMinter,
+        isAuthorizingMinter,
+    };
+}
@@ -0,0 +1,44 @@
+'use client';
+
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import type { MeltyFiDataSource } from '@/lib/data-source';
+import { createGraphQLDataSource } from '@/lib/data-source-graphql';
+import { createIndexerDataSource } from '@/lib/data-source-indexer';
+import { createJsonRpcDataSource } from '@/lib/data-source-rpc';
+import { fetchIndexerStatus } from '@/lib/indexer';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { SuiGraphQLClient } from '@mysten/sui/graphql';
+import { useQuery } from '@tanstack/react-query';
+import { useMemo } from 'react';
+
+// How often an indexer is probed, so reads move back to it once it recovers
+const INDEXER_HEALTH_INTERVAL = 60000;
+
+// The read source configured for the selected network. Query keys that hold
+// cursors or source-specific results must include its kind.
+export function useMeltyFiDataSource(): MeltyFiDataSource {
+    const suiClient = useSuiClient();
+    const { network, config, contracts } = useMeltyFiNetwork();
+    const indexerUrl = config.dataSource === 'indexer' ? config.indexerUrl : undefined;
+
+    const { isError: isIndexerUnavailable } = useQuery({
+        queryKey: ['dataSourceHealth', network, indexerUrl],
+        queryFn: () => fetchIndexerStatus(indexerUrl!),
+        enabled: !!indexerUrl,
+        refetchInterval: INDEXER_HEALTH_INTERVAL,
+        retry: 1,
+    });
+
+    return useMemo(() => {
+        const jsonRpc = createJsonRpcDataSource(suiClient, contracts.packageId);
+
+        if (config.dataSource === 'graphql') {
+            return createGraphQLDataSource(new SuiGraphQLClient({ url: config.graphqlUrl }), contracts.packageId);
+        }
+        // Fall back to reading the fullnode while the indexer cannot be reached
+        if (indexerUrl && !isIndexerUnavailable) {
+            return createIndexerDataSource(indexerUrl, jsonRpc);
+        }
+        return jsonRpc;
+    }, [suiClient, contracts.packageId, config.dataSource, config.graphqlUrl, indexerUrl, isIndexerUnavailable]);
+}
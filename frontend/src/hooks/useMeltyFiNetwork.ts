@@ -0,0 +1,49 @@
+'use client';
+
+import { useDeploymentConfig } from '@/components/providers/DeploymentConfigProvider';
+import {
+    DEFAULT_NETWORK,
+    getExplorerUrl,
+    getMeltyFiTypes,
+    isSupportedNetwork,
+    NETWORK_CONFIG,
+    type MeltyFiContracts,
+    type MeltyFiNetwork
+} from '@/constants/contracts';
+import { useSuiClientContext } from '@mysten/dapp-kit';
+import { useCallback, useMemo } from 'react';
+
+const UNCONFIGURED_CONTRACTS: MeltyFiContracts = {
+    packageId: '',
+    protocolObjectId: '',
+    chocolateFactoryId: '',
+    adminCapId: '',
+    factoryAdminId: '',
+};
+
+// Contract IDs, types and explorer links for the network selected in SuiClientProvider
+export function useMeltyFiNetwork() {
+    const { network: selectedNetwork, selectNetwork } = useSuiClientContext();
+    const network: MeltyFiNetwork = isSupportedNetwork(selectedNetwork) ? selectedNetwork : DEFAULT_NETWORK;
+    const config = NETWORK_CONFIG[network];
+
+    const deployment = useDeploymentConfig()[network];
+    const contracts = deployment.status === 'ready' ? deployment.contracts : UNCONFIGURED_CONTRACTS;
+
+    const types = useMemo(() => getMeltyFiTypes(contracts.packageId), [contracts.packageId]);
+
+    const explorerUrl = useCallback(
+        (type: 'txblock' | 'object' | 'address', identifier: string) => getExplorerUrl(type, identifier, network),
+        [network]
+    );
+
+    return {
+        network,
+        config,
+        deployment,
+        contracts,
+        types,
+        explorerUrl,
+        selectNetwork: selectNetwork as (network: MeltyFiNetwork) => void,
+    };
+}
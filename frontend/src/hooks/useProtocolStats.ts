@@ -0,0 +1,75 @@
+'use client';
+
+import { useMeltyFiDataSource } from '@/hooks/useMeltyFiDataSource';
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { useProtocolStatus } from '@/hooks/useProtocolStatus';
+import {
+    EMPTY_PURCHASE_VOLUME,
+    fetchIndexedPurchaseVolume,
+    fetchProtocolStats,
+    fetchPurchaseVolume,
+    type PurchaseVolume
+} from '@/lib/protocol-stats';
+import { useSuiClient } from '@mysten/dapp-kit';
+import { useQuery, useQueryClient } from '@tanstack/react-query';
+
+// How soon a capped event walk continues, until it has caught up
+const PARTIAL_VOLUME_REFETCH_INTERVAL = 2000;
+
+// Headline protocol numbers: on-chain counters plus event-derived volume
+export function useProtocolStats() {
+    const suiClient = useSuiClient();
+    const queryClient = useQueryClient();
+    const dataSource = useMeltyFiDataSource();
+    const { network, config, contracts } = useMeltyFiNetwork();
+    const { protocolStatus } = useProtocolStatus();
+    const indexerUrl = dataSource.kind === 'indexer' ? config.indexerUrl : undefined;
+
+    const { data: protocolStats = null, isLoading: isLoadingProtocolStats } = useQuery({
+        queryKey: ['protocolStats', network, contracts.protocolObjectId],
+        queryFn: async () => {
+            try {
+                return await fetchProtocolStats(suiClient, contracts.packageId, contracts.protocolObjectId);
+            } catch (error) {
+                console.error('Error fetching protocol stats:', error);
+                return null;
+            }
+        },
+        enabled: !!contracts.packageId && !!contracts.protocolObjectId,
+        refetchInterval: 60000,
+    });
+
+    // The event walk continues from the cached cursor, so refetches only read new purchases
+    const volumeSource = indexerUrl ? 'indexer' : 'events';
+    const { data: purchaseVolume, isLoading: isLoadingVolume } = useQuery({
+        queryKey: ['purchaseVolume', network, contracts.packageId, volumeSource],
+        queryFn: async () => {
+            const previous = queryClient.getQueryData<PurchaseVolume>(['purchaseVolume', network, contracts.packageId, volumeSource])
+                ?? EMPTY_PURCHASE_VOLUME;
+            try {
+                return indexerUrl
+                    ? await fetchIndexedPurchaseVolume(indexerUrl)
+                    : await fetchPurchaseVolume(suiClient, contracts.packageId, previous);
+            } catch (error) {
+                console.error('Error fetching purchase volume:', error);
+                return previous;
+            }
+        },
+        enabled: !!contracts.packageId,
+        refetchInterval: (query) => query.state.data?.isPartial ? PARTIAL_VOLUME_REFETCH_INTERVAL : 60000,
+    });
+
+    return {
+        totalLotteries: protocolStats?.totalLotteries ?? 0,
+        // get_protocol_stats has no active count; the Protocol object tracks active lotteries in a map
+        activeLotteries: protocolStatus?.activeLotteries ?? 0,
+        treasury: protocolStats?.treasury ?? '0',
+        paused: protocolStats?.paused ?? false,
+        volume: purchaseVolume?.volume ?? '0',
+        wonkaBarsSold: purchaseVolume?.wonkaBarsSold ?? '0',
+        uniqueBuyers: purchaseVolume?.uniqueBuyers ?? 0,
+        // Older purchases are still being counted
+        isVolumePartial: purchaseVolume?.isPartial ?? false,
+        isLoadingStats: isLoadingProtocolStats || isLoadingVolume,
+    };
+}
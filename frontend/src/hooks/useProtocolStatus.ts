@@ -0,0 +1,64 @@
+'use client';
+
+import { useMeltyFiNetwork } from '@/hooks/useMeltyFiNetwork';
+import { useSuiClient } from '@mysten/dapp-kit';
+import type { SuiObjectResponse } from '@mysten/sui/client';
+import { useQuery } from '@tanstack/react-query';
+
+export interface ProtocolStatus {
+    version: number;
+    admin: string;
+    totalLotteries: number;
+    activeLotteries: number;
+    treasury: string;
+    paused: boolean;
+}
+
+// Shown next to every action that core.move rejects with EProtocolPaused
+export const PROTOCOL_PAUSED_REASON = 'MeltyFi is paused by its administrators. Claims remain available.';
+
+// Parse the shared core::Protocol object
+function parseProtocolStatus(obj: SuiObjectResponse): ProtocolStatus | null {
+    const content = obj.data?.content;
+    if (content?.dataType !== 'moveObject') return null;
+
+    const fields = content.fields as any;
+    return {
+        version: Number(fields.version ?? 0),
+        admin: fields.admin || '',
+        totalLotteries: Number(fields.total_lotteries ?? 0),
+        activeLotteries: fields.active_lotteries?.fields?.contents?.length || 0,
+        treasury: fields.treasury?.toString() || '0',
+        paused: fields.paused === true,
+    };
+}
+
+// Protocol-wide state, shared by every component through the query cache
+export function useProtocolStatus() {
+    const suiClient = useSuiClient();
+    const { network, contracts } = useMeltyFiNetwork();
+
+    const { data: protocolStatus = null, isLoading } = useQuery({
+        queryKey: ['protocolStatus', network, contracts.protocolObjectId],
+        queryFn: async () => {
+            try {
+                const protocol = await suiClient.getObject({
+                    id: contracts.protocolObjectId,
+                    options: { showContent: true },
+                });
+                return parseProtocolStatus(protocol);
+            } catch (error) {
+                console.error('Error fetching protocol status:', error);
+                return null;
+            }
+        },
+        enabled: !!contracts.protocolObjectId,
+        refetchInterval: 30000,
+    });
+
+    return {
+        protocolStatus,
+        isPaused: protocolStatus?.paused ?? false,
+        isLoadingProtocolStatus: isLoading,
+    };
+}
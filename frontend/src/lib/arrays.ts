@@ -0,0 +1,12 @@
+/**
+ * Array helpers without dependencies, so the keeper and indexer can import
+ * them without pulling in the frontend's UI packages.
+ */
+
+export function chunk<T>(items: T[], size: number): T[][] {
+    const chunks: T[][] = [];
+    for (let i = 0; i < items.length; i += size) {
+        chunks.push(items.slice(i, i + size));
+    }
+    return chunks;
+}
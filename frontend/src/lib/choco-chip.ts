@@ -0,0 +1,163 @@
+import { fetchIndexedUser } from '@/lib/indexer';
+import { devInspectReturnValues } from '@/lib/inspect';
+import { bcs } from '@mysten/sui/bcs';
+import type { EventId, SuiClient, SuiEvent } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+/**
+ * Reads for the ChocoChip reward token: supply through the choco_chip view
+ * functions, mint and minter history from the module's events, and a user's
+ * own mints from the transactions that sent them coins or from the indexer.
+ */
+
+export interface ChocoChipSupply {
+    totalSupply: string;
+    maxSupply: string;
+}
+
+export interface ChocoChipMint {
+    id: string;
+    digest: string;
+    recipient: string;
+    minter: string;
+    amount: string;
+    timestamp: number;
+}
+
+export interface MinterAuthorization {
+    minter: string;
+    authorizedBy: string;
+    digest: string;
+    timestamp: number;
+}
+
+const EVENT_PAGE_SIZE = 50;
+
+// Call choco_chip::total_supply and choco_chip::max_supply in a single devInspect
+export async function fetchChocoChipSupply(
+    suiClient: SuiClient,
+    packageId: string,
+    chocolateFactoryId: string
+): Promise<ChocoChipSupply> {
+    const tx = new Transaction();
+    tx.moveCall({
+        target: `${packageId}::choco_chip::total_supply`,
+        arguments: [tx.object(chocolateFactoryId)],
+    });
+    tx.moveCall({
+        target: `${packageId}::choco_chip::max_supply`,
+        arguments: [tx.object(chocolateFactoryId)],
+    });
+
+    const [[totalSupply], [maxSupply]] = await devInspectReturnValues(suiClient, tx);
+    if (!totalSupply || !maxSupply) throw new Error('Unexpected ChocoChip supply return values');
+
+    return {
+        totalSupply: bcs.u64().parse(totalSupply),
+        maxSupply: bcs.u64().parse(maxSupply),
+    };
+}
+
+function parseChocoChipMint(event: SuiEvent): ChocoChipMint {
+    const json = event.parsedJson as any;
+    return {
+        id: `${event.id.txDigest}:${event.id.eventSeq}`,
+        digest: event.id.txDigest,
+        recipient: json.recipient,
+        minter: json.minter,
+        amount: String(json.amount),
+        timestamp: Number(event.timestampMs ?? 0),
+    };
+}
+
+// One page of ChocolateMinted events, newest first
+export async function fetchChocoChipMints(
+    suiClient: SuiClient,
+    packageId: string,
+    cursor: EventId | null
+): Promise<{ mints: ChocoChipMint[]; nextCursor: EventId | null }> {
+    const page = await suiClient.queryEvents({
+        query: { MoveEventType: `${packageId}::choco_chip::ChocolateMinted` },
+        cursor,
+        limit: EVENT_PAGE_SIZE,
+        order: 'descending',
+    });
+
+    return { mints: page.data.map(parseChocoChipMint), nextCursor: page.hasNextPage ? page.nextCursor ?? null : null };
+}
+
+// One page of the transactions that sent objects to the recipient, newest first, keeping their mints to it.
+// Events cannot be filtered by recipient, but a minted coin is transferred to it in the same transaction.
+export async function fetchUserChocoChipMints(
+    suiClient: SuiClient,
+    packageId: string,
+    recipient: string,
+    cursor: string | null
+): Promise<{ mints: ChocoChipMint[]; nextCursor: string | null }> {
+    const page = await suiClient.queryTransactionBlocks({
+        filter: { ToAddress: recipient },
+        options: { showEvents: true },
+        cursor,
+        limit: EVENT_PAGE_SIZE,
+        order: 'descending',
+    });
+
+    const recipientAddress = normalizeSuiAddress(recipient);
+    const mints = page.data.flatMap((tx) => (tx.events ?? [])
+        .filter((event) => event.type === `${packageId}::choco_chip::ChocolateMinted`)
+        .map(parseChocoChipMint)
+        .filter((mint) => normalizeSuiAddress(mint.recipient) === recipientAddress));
+
+    return { mints, nextCursor: page.hasNextPage ? page.nextCursor ?? null : null };
+}
+
+// Every mint to the recipient, as recorded by the indexer
+export async function fetchIndexedUserChocoChipMints(
+    indexerUrl: string,
+    recipient: string
+): Promise<{ mints: ChocoChipMint[]; nextCursor: string | null }> {
+    const { mints } = await fetchIndexedUser(indexerUrl, recipient);
+    return {
+        mints: mints.map((mint) => ({
+            id: `${mint.txDigest}:${mint.eventSeq}`,
+            digest: mint.txDigest,
+            recipient: mint.recipient,
+            minter: mint.minter,
+            amount: mint.amount,
+            timestamp: mint.timestamp,
+        })),
+        nextCursor: null,
+    };
+}
+
+// Every MinterAuthorized event, oldest first. Authorizations are rare, so all pages are read.
+export async function fetchMinterAuthorizations(suiClient: SuiClient, packageId: string): Promise<MinterAuthorization[]> {
+    const authorizations: MinterAuthorization[] = [];
+    let cursor: EventId | null = null;
+    let hasNextPage = true;
+
+    while (hasNextPage) {
+        const page = await suiClient.queryEvents({
+            query: { MoveEventType: `${packageId}::choco_chip::MinterAuthorized` },
+            cursor,
+            limit: EVENT_PAGE_SIZE,
+            order: 'ascending',
+        });
+
+        authorizations.push(...page.data.map((event) => {
+            const json = event.parsedJson as any;
+            return {
+                minter: json.minter,
+                authorizedBy: json.authorized_by,
+                digest: event.id.txDigest,
+                timestamp: Number(event.timestampMs ?? 0),
+            };
+        }));
+
+        cursor = page.data[page.data.length - 1]?.id ?? cursor;
+        hasNextPage = page.hasNextPage;
+    }
+
+    return authorizations;
+}
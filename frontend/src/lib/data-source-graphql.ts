@@ -0,0 +1,322 @@
+import { getMeltyFiTypes } from '@/constants/contracts';
+import { chunk } from '@/lib/arrays';
+import type { LotteryPage, MeltyFiDataSource, MeltyFiEventRecord } from '@/lib/data-source';
+import { parseMeltyFiEventJson } from '@/lib/meltyfi-events';
+import {
+    parseLotteryFields,
+    parseParticipantFields,
+    parseWonkaBarFields,
+    type Lottery,
+    type WonkaBar
+} from '@/lib/meltyfi-objects';
+import type { GraphQLQueryOptions, SuiGraphQLClient } from '@mysten/sui/graphql';
+import { graphql, type ResultOf } from '@mysten/sui/graphql/schemas/latest';
+import { normalizeStructTag, SUI_TYPE_ARG } from '@mysten/sui/utils';
+
+/**
+ * Data source backed by Sui GraphQL. A LotteryCreated event carries its
+ * transaction's effects, so discovering lotteries takes one request per page
+ * instead of an event query followed by a transaction lookup.
+ */
+
+// Largest page the public GraphQL service returns
+const PAGE_SIZE = 50;
+
+const LOTTERY_CREATED_EVENTS = graphql(`
+    query lotteryCreatedEvents($eventType: String!, $first: Int, $after: String, $last: Int, $before: String) {
+        events(filter: { eventType: $eventType }, first: $first, after: $after, last: $last, before: $before) {
+            pageInfo {
+                hasNextPage
+                hasPreviousPage
+                startCursor
+                endCursor
+            }
+            nodes {
+                contents {
+                    json
+                }
+                transactionBlock {
+                    effects {
+                        objectChanges(first: 50) {
+                            nodes {
+                                address
+                                idCreated
+                                outputState {
+                                    asMoveObject {
+                                        contents {
+                                            type {
+                                                repr
+                                            }
+                                        }
+                                    }
+                                }
+                            }
+                        }
+                    }
+                }
+            }
+        }
+    }
+`);
+
+const OBJECTS = graphql(`
+    query meltyFiObjects($objectIds: [SuiAddress!]!, $first: Int) {
+        objects(filter: { objectIds: $objectIds }, first: $first) {
+            nodes {
+                address
+                asMoveObject {
+                    contents {
+                        type {
+                            repr
+                        }
+                        json
+                    }
+                }
+            }
+        }
+    }
+`);
+
+const OWNED_OBJECTS = graphql(`
+    query ownedObjects($owner: SuiAddress!, $type: String!, $first: Int, $after: String) {
+        address(address: $owner) {
+            objects(filter: { type: $type }, first: $first, after: $after) {
+                pageInfo {
+                    hasNextPage
+                    endCursor
+                }
+                nodes {
+                    address
+                    contents {
+                        json
+                    }
+                }
+            }
+        }
+    }
+`);
+
+const BALANCES = graphql(`
+    query balances($owner: SuiAddress!, $suiType: String!, $chocoChipType: String!) {
+        address(address: $owner) {
+            sui: balance(type: $suiType) {
+                totalBalance
+            }
+            chocoChip: balance(type: $chocoChipType) {
+                totalBalance
+            }
+        }
+    }
+`);
+
+const EVENTS = graphql(`
+    query meltyFiEvents($filter: EventFilter!, $last: Int, $before: String) {
+        events(filter: $filter, last: $last, before: $before) {
+            pageInfo {
+                hasPreviousPage
+                startCursor
+            }
+            edges {
+                cursor
+                node {
+                    timestamp
+                    contents {
+                        type {
+                            repr
+                        }
+                        json
+                    }
+                    transactionBlock {
+                        digest
+                    }
+                }
+            }
+        }
+    }
+`);
+
+type LotteryCreatedEvents = NonNullable<ResultOf<typeof LOTTERY_CREATED_EVENTS>['events']>;
+
+export function createGraphQLDataSource(client: SuiGraphQLClient, packageId: string): MeltyFiDataSource {
+    const types = getMeltyFiTypes(packageId);
+    const lotteryType = normalizeStructTag(types.lottery);
+
+    const run = async <Result, Variables>(options: GraphQLQueryOptions<Result, Variables>): Promise<Result> => {
+        const { data, errors } = await client.query(options);
+        if (errors?.length || !data) throw new Error(errors?.map((error) => error.message).join('; ') || 'Empty GraphQL response');
+        return data;
+    };
+
+    // Lottery objects created by the transactions that emitted these events, in event order
+    const createdLotteryIds = (events: LotteryCreatedEvents) => [...new Set(events.nodes.flatMap((event) =>
+        (event.transactionBlock?.effects?.objectChanges?.nodes ?? [])
+            .filter((change) => {
+                const type = change.outputState?.asMoveObject?.contents?.type.repr;
+                return change.idCreated && !!type && normalizeStructTag(type) === lotteryType;
+            })
+            .map((change) => change.address)
+    ))];
+
+    const listOlderLotteries = async (cursor: string | null): Promise<LotteryPage> => {
+        const { events } = await run({
+            query: LOTTERY_CREATED_EVENTS,
+            variables: { eventType: `${packageId}::core::LotteryCreated`, last: PAGE_SIZE, before: cursor },
+        });
+
+        // Backward pages are still ordered oldest to newest
+        return {
+            lotteryObjectIds: createdLotteryIds(events).reverse(),
+            newestCursor: events.pageInfo.endCursor ?? null,
+            nextCursor: events.pageInfo.startCursor ?? null,
+            hasNextPage: events.pageInfo.hasPreviousPage,
+        };
+    };
+
+    const listNewerLotteries = async (cursor: string | null): Promise<LotteryPage> => {
+        const lotteryObjectIds: string[] = [];
+        let after = cursor;
+        let hasNextPage = true;
+
+        while (hasNextPage) {
+            const { events } = await run({
+                query: LOTTERY_CREATED_EVENTS,
+                variables: { eventType: `${packageId}::core::LotteryCreated`, first: PAGE_SIZE, after },
+            });
+            lotteryObjectIds.push(...createdLotteryIds(events));
+            after = events.pageInfo.endCursor ?? after;
+            hasNextPage = events.pageInfo.hasNextPage;
+        }
+
+        return {
+            lotteryObjectIds: lotteryObjectIds.reverse(),
+            newestCursor: after,
+            nextCursor: null,
+            hasNextPage: false,
+        };
+    };
+
+    // Move JSON of each requested lottery, skipping objects of any other type
+    const getLotteryContents = async (lotteryObjectIds: string[]) => (await Promise.all(
+        chunk(lotteryObjectIds, PAGE_SIZE).map(async (batch) =>
+            (await run({ query: OBJECTS, variables: { objectIds: batch, first: batch.length } })).objects.nodes
+        )
+    )).flat().flatMap((obj) => {
+        const contents = obj.asMoveObject?.contents;
+        return contents && normalizeStructTag(contents.type.repr) === lotteryType
+            ? [{ objectId: obj.address, fields: contents.json }]
+            : [];
+    });
+
+    const getLotteries = async (lotteryObjectIds: string[]) => (await getLotteryContents(lotteryObjectIds))
+        .map(({ objectId, fields }) => parseLotteryFields(objectId, fields))
+        .filter((lottery): lottery is Lottery => lottery !== null);
+
+    // Walk LotteryCreated events from the newest, reading only the lotteries that are asked for
+    const getLotteriesByLotteryId = async (lotteryIds: string[]): Promise<Lottery[]> => {
+        const wanted = new Set(lotteryIds);
+        const lotteries: Lottery[] = [];
+        let before: string | null = null;
+        let hasPreviousPage = true;
+
+        while (wanted.size > 0 && hasPreviousPage) {
+            const { events }: ResultOf<typeof LOTTERY_CREATED_EVENTS> = await run({
+                query: LOTTERY_CREATED_EVENTS,
+                variables: { eventType: `${packageId}::core::LotteryCreated`, last: PAGE_SIZE, before },
+            });
+            const matching = {
+                ...events,
+                nodes: events.nodes.filter((event) => wanted.has(String((event.contents?.json as any)?.lottery_id))),
+            };
+            if (matching.nodes.length > 0) {
+                (await getLotteries(createdLotteryIds(matching)))
+                    .filter((lottery) => wanted.delete(lottery.lotteryId))
+                    .forEach((lottery) => lotteries.push(lottery));
+            }
+            before = events.pageInfo.startCursor ?? null;
+            hasPreviousPage = events.pageInfo.hasPreviousPage;
+        }
+
+        return lotteries;
+    };
+
+    return {
+        kind: 'graphql',
+
+        listLotteries: (query) => query.direction === 'older'
+            ? listOlderLotteries(query.cursor)
+            : listNewerLotteries(query.cursor),
+
+        getLotteries,
+        getLotteriesByLotteryId,
+
+        async getLottery(lotteryObjectId) {
+            const [contents] = await getLotteryContents([lotteryObjectId]);
+            const lottery = contents ? parseLotteryFields(contents.objectId, contents.fields) : null;
+            return lottery ? { lottery, participants: parseParticipantFields(contents.fields) } : null;
+        },
+
+        async getUserWonkaBars(owner) {
+            const wonkaBars: WonkaBar[] = [];
+            let after: string | null = null;
+            let hasNextPage = true;
+
+            while (hasNextPage) {
+                const result: ResultOf<typeof OWNED_OBJECTS> = await run({
+                    query: OWNED_OBJECTS,
+                    variables: { owner, type: types.wonkaBar, first: PAGE_SIZE, after },
+                });
+                const objects = result.address?.objects;
+                if (!objects) break;
+
+                wonkaBars.push(...objects.nodes
+                    .map((obj) => parseWonkaBarFields(obj.address, obj.contents?.json))
+                    .filter((wonkaBar): wonkaBar is WonkaBar => wonkaBar !== null));
+                after = objects.pageInfo.endCursor ?? null;
+                hasNextPage = objects.pageInfo.hasNextPage;
+            }
+
+            return wonkaBars;
+        },
+
+        async getBalances(owner) {
+            const { address } = await run({
+                query: BALANCES,
+                variables: { owner, suiType: SUI_TYPE_ARG, chocoChipType: types.chocoChip },
+            });
+            return {
+                sui: address?.sui?.totalBalance ?? '0',
+                chocoChip: address?.chocoChip?.totalBalance ?? '0',
+            };
+        },
+
+        async getEvents({ eventType, cursor, limit }) {
+            const { events } = await run({
+                query: EVENTS,
+                variables: {
+                    filter: eventType === 'all'
+                        ? { emittingModule: `${packageId}::core` }
+                        : { eventType: `${packageId}::core::${eventType}` },
+                    last: limit,
+                    before: cursor,
+                },
+            });
+
+            const records = events.edges.flatMap(({ cursor: id, node }): MeltyFiEventRecord[] => {
+                const event = node.contents ? parseMeltyFiEventJson(node.contents.type.repr, node.contents.json) : null;
+                if (!event) return [];
+
+                return [{
+                    id,
+                    digest: node.transactionBlock?.digest ?? '',
+                    timestamp: node.timestamp ? Date.parse(node.timestamp) : 0,
+                    event,
+                }];
+            }).reverse();
+
+            return {
+                events: records,
+                nextCursor: events.pageInfo.hasPreviousPage ? events.pageInfo.startCursor ?? null : null,
+            };
+        },
+    };
+}
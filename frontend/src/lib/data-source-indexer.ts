@@ -0,0 +1,129 @@
+import { chunk } from '@/lib/arrays';
+import type { LotteryPage, MeltyFiDataSource } from '@/lib/data-source';
+import {
+    fetchIndexedLotteries,
+    fetchIndexedLottery,
+    INDEXER_MAX_PAGE_SIZE,
+    type IndexedLottery
+} from '@/lib/indexer';
+import { LOTTERY_STATES, PLACEHOLDER_NFT, type Lottery, type LotteryParticipant } from '@/lib/meltyfi-objects';
+
+/**
+ * Data source backed by the MeltyFi indexer. Lotteries are listed and read
+ * from its SQLite copy, using the numeric lottery ID as a keyset cursor.
+ * The indexer does not track owned objects or balances and keeps no raw
+ * event log, so WonkaBars, balances and the activity timeline are read
+ * through the fallback source.
+ */
+
+// Number of lotteries listed per page, matching the fullnode sources
+const LOTTERY_PAGE_SIZE = 50;
+
+// Convert an indexer row into the shape parseLottery reads from the object
+function fromIndexedLottery(indexed: IndexedLottery): Lottery {
+    const state = LOTTERY_STATES[indexed.state] ?? 'ACTIVE';
+    return {
+        id: indexed.objectId,
+        lotteryId: indexed.lotteryId,
+        owner: indexed.owner,
+        state,
+        createdAt: indexed.createdAt,
+        expirationDate: indexed.expirationDate,
+        wonkaBarPrice: indexed.wonkaPrice,
+        maxSupply: indexed.maxSupply,
+        soldCount: indexed.soldCount,
+        totalRaised: indexed.totalRaised,
+        winner: indexed.winner ?? undefined,
+        winningTicket: state === 'CONCLUDED' ? indexed.winningTicket ?? undefined : undefined,
+        collateralNft: PLACEHOLDER_NFT,
+        nftClaimed: indexed.nftClaimed,
+        participants: indexed.participantAddresses.length,
+        participantAddresses: indexed.participantAddresses
+    };
+}
+
+export function createIndexerDataSource(indexerUrl: string, fallback: MeltyFiDataSource): MeltyFiDataSource {
+    const listOlderLotteries = async (cursor: string | null): Promise<LotteryPage> => {
+        const page = await fetchIndexedLotteries(indexerUrl, {
+            before: cursor ?? undefined,
+            limit: LOTTERY_PAGE_SIZE,
+        });
+
+        return {
+            lotteryObjectIds: page.data.map((lottery) => lottery.objectId),
+            newestCursor: page.data[0]?.lotteryId ?? cursor,
+            nextCursor: page.data[page.data.length - 1]?.lotteryId ?? null,
+            hasNextPage: page.total > page.data.length,
+        };
+    };
+
+    const listNewerLotteries = async (cursor: string | null): Promise<LotteryPage> => {
+        const lotteries: IndexedLottery[] = [];
+        let total = Infinity;
+        while (lotteries.length < total) {
+            const page = await fetchIndexedLotteries(indexerUrl, {
+                after: cursor ?? undefined,
+                limit: INDEXER_MAX_PAGE_SIZE,
+                offset: lotteries.length,
+            });
+            lotteries.push(...page.data);
+            total = page.total;
+            if (page.data.length === 0) break;
+        }
+
+        return {
+            lotteryObjectIds: lotteries.map((lottery) => lottery.objectId),
+            newestCursor: lotteries[0]?.lotteryId ?? cursor,
+            nextCursor: null,
+            hasNextPage: false,
+        };
+    };
+
+    return {
+        kind: 'indexer',
+
+        listLotteries: (query) => query.direction === 'older'
+            ? listOlderLotteries(query.cursor)
+            : listNewerLotteries(query.cursor),
+
+        async getLotteries(lotteryObjectIds) {
+            return (await Promise.all(
+                chunk(lotteryObjectIds, INDEXER_MAX_PAGE_SIZE).map(async (batch) =>
+                    (await fetchIndexedLotteries(indexerUrl, { ids: batch, limit: batch.length })).data
+                )
+            )).flat().map(fromIndexedLottery);
+        },
+
+        async getLotteriesByLotteryId(lotteryIds) {
+            return (await Promise.all(
+                chunk(lotteryIds, INDEXER_MAX_PAGE_SIZE).map(async (batch) =>
+                    (await fetchIndexedLotteries(indexerUrl, { lotteryIds: batch, limit: batch.length })).data
+                )
+            )).flat().map(fromIndexedLottery);
+        },
+
+        async getLottery(lotteryObjectId) {
+            const indexed = await fetchIndexedLottery(indexerUrl, lotteryObjectId);
+            if (!indexed) return null;
+
+            // Purchases come newest first. buy_wonka_bars removes a returning buyer's entry
+            // and inserts it again, so the on-chain map is in order of each buyer's latest purchase.
+            const tickets = new Map<string, bigint>();
+            [...indexed.purchases].reverse().forEach((purchase) => {
+                const previous = tickets.get(purchase.buyer) ?? BigInt(0);
+                tickets.delete(purchase.buyer);
+                tickets.set(purchase.buyer, previous + BigInt(purchase.quantity));
+            });
+            const participants: LotteryParticipant[] = [...tickets].map(([address, count]) => ({
+                address,
+                tickets: count.toString(),
+            }));
+
+            return { lottery: fromIndexedLottery(indexed), participants };
+        },
+
+        getUserWonkaBars: (owner) => fallback.getUserWonkaBars(owner),
+        getBalances: (owner) => fallback.getBalances(owner),
+        getEvents: (query) => fallback.getEvents(query),
+    };
+}
@@ -0,0 +1,214 @@
+import { getMeltyFiTypes } from '@/constants/contracts';
+import { chunk } from '@/lib/arrays';
+import type { LotteryPage, MeltyFiDataSource, MeltyFiEventRecord } from '@/lib/data-source';
+import { parseMeltyFiEvent } from '@/lib/meltyfi-events';
+import {
+    parseLottery,
+    parseObjectContent,
+    parseParticipantFields,
+    parseWonkaBar,
+    type Lottery,
+    type WonkaBar
+} from '@/lib/meltyfi-objects';
+import type { EventId, SuiClient, SuiEvent, SuiEventFilter, SuiObjectChange, SuiObjectResponse } from '@mysten/sui/client';
+import { normalizeStructTag } from '@mysten/sui/utils';
+
+/**
+ * Data source backed by fullnode JSON-RPC. Lotteries are discovered from
+ * LotteryCreated events, whose shared objects are found in the creating
+ * transactions, then read with multiGetObjects.
+ */
+
+// Maximum number of digests/IDs accepted by the multiGet RPC methods
+const MULTI_GET_LIMIT = 50;
+
+// Number of LotteryCreated events fetched per discovery page
+const LOTTERY_PAGE_SIZE = 50;
+
+const encodeCursor = (cursor: EventId | null | undefined) => cursor ? JSON.stringify(cursor) : null;
+const decodeCursor = (cursor: string | null): EventId | null => cursor ? JSON.parse(cursor) : null;
+
+export function createJsonRpcDataSource(suiClient: SuiClient, packageId: string): MeltyFiDataSource {
+    const types = getMeltyFiTypes(packageId);
+    const lotteryCreatedFilter: SuiEventFilter = { MoveEventType: `${packageId}::core::LotteryCreated` };
+
+    const isType = (obj: SuiObjectResponse, type: string) =>
+        !!obj.data?.type && normalizeStructTag(obj.data.type) === normalizeStructTag(type);
+
+    // Lottery objects are shared on creation, so resolve their IDs from the creating transactions
+    const resolveLotteryObjectIds = async (events: SuiEvent[]): Promise<string[]> => {
+        const digests = [...new Set(events.map((event) => event.id.txDigest))];
+        const transactions = (await Promise.all(
+            chunk(digests, MULTI_GET_LIMIT).map((batch) =>
+                suiClient.multiGetTransactionBlocks({
+                    digests: batch,
+                    options: { showObjectChanges: true },
+                })
+            )
+        )).flat();
+
+        return transactions.flatMap((tx) =>
+            (tx.objectChanges ?? [])
+                .filter((change): change is Extract<SuiObjectChange, { type: 'created' }> =>
+                    change.type === 'created' && normalizeStructTag(change.objectType) === normalizeStructTag(types.lottery)
+                )
+                .map((change) => change.objectId)
+        );
+    };
+
+    // One page of LotteryCreated events, walking backwards from the newest
+    const listOlderLotteries = async (cursor: string | null): Promise<LotteryPage> => {
+        const events = await suiClient.queryEvents({
+            query: lotteryCreatedFilter,
+            cursor: decodeCursor(cursor),
+            limit: LOTTERY_PAGE_SIZE,
+            order: 'descending'
+        });
+
+        return {
+            lotteryObjectIds: await resolveLotteryObjectIds(events.data),
+            newestCursor: encodeCursor(events.data[0]?.id),
+            nextCursor: encodeCursor(events.nextCursor),
+            hasNextPage: events.hasNextPage,
+        };
+    };
+
+    // Every LotteryCreated event emitted after the cursor
+    const listNewerLotteries = async (cursor: string | null): Promise<LotteryPage> => {
+        const events: SuiEvent[] = [];
+        let eventCursor = decodeCursor(cursor);
+        let hasNextPage = true;
+
+        while (hasNextPage) {
+            const page = await suiClient.queryEvents({
+                query: lotteryCreatedFilter,
+                cursor: eventCursor,
+                limit: LOTTERY_PAGE_SIZE,
+                order: 'ascending'
+            });
+            events.push(...page.data);
+            eventCursor = page.data[page.data.length - 1]?.id ?? eventCursor;
+            hasNextPage = page.hasNextPage;
+        }
+
+        return {
+            lotteryObjectIds: (await resolveLotteryObjectIds(events)).reverse(),
+            newestCursor: encodeCursor(eventCursor),
+            nextCursor: null,
+            hasNextPage: false,
+        };
+    };
+
+    const getLotteryObjects = async (lotteryObjectIds: string[]) => (await Promise.all(
+        chunk(lotteryObjectIds, MULTI_GET_LIMIT).map((batch) =>
+            suiClient.multiGetObjects({
+                ids: batch,
+                options: { showContent: true, showType: true },
+            })
+        )
+    )).flat().filter((obj) => isType(obj, types.lottery));
+
+    const getLotteries = async (lotteryObjectIds: string[]) => (await getLotteryObjects(lotteryObjectIds))
+        .map(parseLottery)
+        .filter((lottery): lottery is Lottery => lottery !== null);
+
+    // Walk LotteryCreated events from the newest, reading only the lotteries that are asked for
+    const getLotteriesByLotteryId = async (lotteryIds: string[]): Promise<Lottery[]> => {
+        const wanted = new Set(lotteryIds);
+        const lotteries: Lottery[] = [];
+        let cursor: EventId | null = null;
+        let hasNextPage = true;
+
+        while (wanted.size > 0 && hasNextPage) {
+            const page = await suiClient.queryEvents({
+                query: lotteryCreatedFilter,
+                cursor,
+                limit: LOTTERY_PAGE_SIZE,
+                order: 'descending'
+            });
+            const matching = page.data.filter((event) => wanted.has(String((event.parsedJson as any)?.lottery_id)));
+            if (matching.length > 0) {
+                (await getLotteries(await resolveLotteryObjectIds(matching)))
+                    .filter((lottery) => wanted.delete(lottery.lotteryId))
+                    .forEach((lottery) => lotteries.push(lottery));
+            }
+            cursor = page.nextCursor ?? null;
+            hasNextPage = page.hasNextPage;
+        }
+
+        return lotteries;
+    };
+
+    return {
+        kind: 'json-rpc',
+
+        listLotteries: (query) => query.direction === 'older'
+            ? listOlderLotteries(query.cursor)
+            : listNewerLotteries(query.cursor),
+
+        getLotteries,
+        getLotteriesByLotteryId,
+
+        async getLottery(lotteryObjectId) {
+            const [obj] = await getLotteryObjects([lotteryObjectId]);
+            const lottery = obj ? parseLottery(obj) : null;
+            return lottery ? { lottery, participants: parseParticipantFields(parseObjectContent(obj)) } : null;
+        },
+
+        async getUserWonkaBars(owner) {
+            const wonkaBars: WonkaBar[] = [];
+            let cursor: string | null | undefined = null;
+            do {
+                const page = await suiClient.getOwnedObjects({
+                    owner,
+                    filter: { StructType: types.wonkaBar },
+                    options: { showContent: true },
+                    cursor,
+                });
+                wonkaBars.push(...page.data
+                    .map(parseWonkaBar)
+                    .filter((wonkaBar): wonkaBar is WonkaBar => wonkaBar !== null));
+                cursor = page.hasNextPage ? page.nextCursor : null;
+            } while (cursor);
+
+            return wonkaBars;
+        },
+
+        async getBalances(owner) {
+            const [sui, chocoChip] = await Promise.all([
+                suiClient.getBalance({ owner }),
+                suiClient.getBalance({ owner, coinType: types.chocoChip }),
+            ]);
+            return { sui: sui.totalBalance, chocoChip: chocoChip.totalBalance };
+        },
+
+        async getEvents({ eventType, cursor, limit }) {
+            // Filtering on the node keeps pagination intact for rare event types. MoveEventModule
+            // matches the emitting module, so events from calls through the meltyfi facade are included.
+            const filter: SuiEventFilter = eventType === 'all'
+                ? { MoveEventModule: { package: packageId, module: 'core' } }
+                : { MoveEventType: `${packageId}::core::${eventType}` };
+
+            const page = await suiClient.queryEvents({
+                query: filter,
+                cursor: decodeCursor(cursor),
+                limit,
+                order: 'descending',
+            });
+
+            const events = page.data.flatMap((suiEvent): MeltyFiEventRecord[] => {
+                const event = parseMeltyFiEvent(suiEvent);
+                if (!event) return [];
+
+                return [{
+                    id: `${suiEvent.id.txDigest}:${suiEvent.id.eventSeq}`,
+                    digest: suiEvent.id.txDigest,
+                    timestamp: Number(suiEvent.timestampMs ?? 0),
+                    event,
+                }];
+            });
+
+            return { events, nextCursor: page.hasNextPage ? encodeCursor(page.nextCursor) : null };
+        },
+    };
+}
@@ -0,0 +1,69 @@
+import type { DataSourceKind } from '@/constants/contracts';
+import type { MeltyFiEvent, MeltyFiEventType } from '@/lib/meltyfi-events';
+import type { Lottery, LotteryParticipant, WonkaBar } from '@/lib/meltyfi-objects';
+
+/**
+ * Read side of the app, independent of where the data comes from.
+ * Implementations: JSON-RPC against a fullnode (data-source-rpc), Sui GraphQL
+ * (data-source-graphql) and the MeltyFi indexer (data-source-indexer).
+ * Cursors are opaque strings that only the source that issued them understands.
+ */
+
+// Lotteries are discovered newest first and hydrated separately, so discovery pages are never refetched
+export type LotteryListQuery =
+    // One page of older lotteries, starting from the newest when cursor is null
+    | { direction: 'older'; cursor: string | null }
+    // Every lottery created after the cursor, or every lottery when it is null
+    | { direction: 'newer'; cursor: string | null };
+
+export interface LotteryPage {
+    lotteryObjectIds: string[];
+    // Cursor of the newest lottery on the page, to ask for newer ones later
+    newestCursor: string | null;
+    nextCursor: string | null;
+    hasNextPage: boolean;
+}
+
+export interface LotteryDetail {
+    lottery: Lottery;
+    participants: LotteryParticipant[];
+}
+
+export interface UserBalances {
+    sui: string;
+    chocoChip: string;
+}
+
+export interface MeltyFiEventRecord {
+    // Unique across the timeline, usable as a React key
+    id: string;
+    digest: string;
+    timestamp: number;
+    event: MeltyFiEvent;
+}
+
+export interface EventQuery {
+    // Core events of every type when 'all'
+    eventType: MeltyFiEventType | 'all';
+    cursor: string | null;
+    limit: number;
+}
+
+export interface EventPage {
+    events: MeltyFiEventRecord[];
+    nextCursor: string | null;
+}
+
+export interface MeltyFiDataSource {
+    kind: DataSourceKind;
+    listLotteries(query: LotteryListQuery): Promise<LotteryPage>;
+    // Skips IDs that are unknown or not MeltyFi lotteries
+    getLotteries(lotteryObjectIds: string[]): Promise<Lottery[]>;
+    // By numeric lottery ID, as referenced by receipts and WonkaBars, whichever page they are on
+    getLotteriesByLotteryId(lotteryIds: string[]): Promise<Lottery[]>;
+    getLottery(lotteryObjectId: string): Promise<LotteryDetail | null>;
+    getUserWonkaBars(owner: string): Promise<WonkaBar[]>;
+    getBalances(owner: string): Promise<UserBalances>;
+    // Newest first
+    getEvents(query: EventQuery): Promise<EventPage>;
+}
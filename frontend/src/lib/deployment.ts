@@ -0,0 +1,138 @@
+import type { MeltyFiContracts, MeltyFiNetwork } from '@/constants/contracts';
+import { isValidSuiAddress, isValidSuiObjectId } from '@mysten/sui/utils';
+
+/**
+ * Runtime deployment configuration.
+ * scripts/auto_deploy.sh writes contracts/meltyfi/deployment_info.json and copies it to
+ * frontend/public/deployments/<network>.json, so a redeploy only needs the file replaced.
+ */
+
+export interface DeploymentInfo {
+    network: MeltyFiNetwork;
+    deployer: string;
+    timestamp: string;
+    packageId: string;
+    objects: {
+        adminCap: string;
+        protocol: string;
+        chocolateFactory: string;
+        factoryAdmin: string;
+        upgradeCap?: string;
+        coinMetadata?: string;
+    };
+}
+
+export interface DeploymentIssue {
+    // Dotted path of the offending field, e.g. "objects.protocol"
+    path: string;
+    message: string;
+}
+
+export type DeploymentValidation =
+    | { valid: true; deployment: DeploymentInfo }
+    | { valid: false; issues: DeploymentIssue[] };
+
+type FieldKind = 'objectId' | 'address' | 'timestamp';
+
+interface FieldSpec {
+    path: string;
+    kind: FieldKind;
+    required: boolean;
+}
+
+// Schema for deployment_info.json; optional fields are validated only when present
+const DEPLOYMENT_FIELDS: FieldSpec[] = [
+    { path: 'deployer', kind: 'address', required: true },
+    { path: 'timestamp', kind: 'timestamp', required: true },
+    { path: 'packageId', kind: 'objectId', required: true },
+    { path: 'objects.protocol', kind: 'objectId', required: true },
+    { path: 'objects.chocolateFactory', kind: 'objectId', required: true },
+    { path: 'objects.adminCap', kind: 'objectId', required: true },
+    { path: 'objects.factoryAdmin', kind: 'objectId', required: true },
+    { path: 'objects.upgradeCap', kind: 'objectId', required: false },
+    { path: 'objects.coinMetadata', kind: 'objectId', required: false },
+];
+
+export function getDeploymentUrl(network: MeltyFiNetwork): string {
+    return `/deployments/${network}.json`;
+}
+
+function getField(value: unknown, path: string): unknown {
+    return path.split('.').reduce<unknown>(
+        (current, key) => (current && typeof current === 'object' ? (current as Record<string, unknown>)[key] : undefined),
+        value
+    );
+}
+
+function checkField(kind: FieldKind, value: string): string | null {
+    switch (kind) {
+        case 'objectId':
+            return isValidSuiObjectId(value) ? null : 'Expected a 0x-prefixed 32-byte object ID';
+        case 'address':
+            return isValidSuiAddress(value) ? null : 'Expected a 0x-prefixed 32-byte address';
+        case 'timestamp':
+            return Number.isNaN(Date.parse(value)) ? 'Expected an ISO 8601 timestamp' : null;
+    }
+}
+
+export function validateDeploymentInfo(value: unknown, network: MeltyFiNetwork): DeploymentValidation {
+    if (!value || typeof value !== 'object' || Array.isArray(value)) {
+        return { valid: false, issues: [{ path: '(root)', message: 'Expected a JSON object' }] };
+    }
+
+    const issues: DeploymentIssue[] = [];
+
+    const declaredNetwork = getField(value, 'network');
+    if (typeof declaredNetwork !== 'string' || declaredNetwork === '') {
+        issues.push({ path: 'network', message: 'Missing' });
+    } else if (declaredNetwork !== network) {
+        issues.push({ path: 'network', message: `Deployment is for ${declaredNetwork}, not ${network}` });
+    }
+
+    if (!getField(value, 'objects') || typeof getField(value, 'objects') !== 'object') {
+        issues.push({ path: 'objects', message: 'Missing' });
+    }
+
+    for (const field of DEPLOYMENT_FIELDS) {
+        const fieldValue = getField(value, field.path);
+
+        if (fieldValue === undefined || fieldValue === null || fieldValue === '') {
+            if (field.required) issues.push({ path: field.path, message: 'Missing' });
+            continue;
+        }
+        if (typeof fieldValue !== 'string') {
+            issues.push({ path: field.path, message: 'Expected a string' });
+            continue;
+        }
+
+        const problem = checkField(field.kind, fieldValue);
+        if (problem) issues.push({ path: field.path, message: problem });
+    }
+
+    return issues.length > 0
+        ? { valid: false, issues }
+        : { valid: true, deployment: value as DeploymentInfo };
+}
+
+export function toMeltyFiContracts(deployment: DeploymentInfo): MeltyFiContracts {
+    return {
+        packageId: deployment.packageId,
+        protocolObjectId: deployment.objects.protocol,
+        chocolateFactoryId: deployment.objects.chocolateFactory,
+        adminCapId: deployment.objects.adminCap,
+        factoryAdminId: deployment.objects.factoryAdmin,
+    };
+}
+
+// Resolves to null when no deployment is served for the network
+export async function fetchDeploymentInfo(network: MeltyFiNetwork): Promise<unknown | null> {
+    const response = await fetch(getDeploymentUrl(network), { cache: 'no-store' });
+    if (response.status === 404) return null;
+    if (!response.ok) throw new Error(`Failed to load ${getDeploymentUrl(network)}: ${response.status}`);
+
+    try {
+        return await response.json();
+    } catch {
+        throw new Error(`${getDeploymentUrl(network)} is not valid JSON`);
+    }
+}
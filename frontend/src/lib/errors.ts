@@ -0,0 +1,193 @@
+// Decodes Move aborts from the MeltyFi package into user-facing errors.
+// Codes mirror the error constants in contracts/meltyfi/sources/{core,choco_chip}.move.
+
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+export type MeltyFiModule = 'core' | 'choco_chip';
+
+export type MeltyFiErrorCode =
+    | 'ENotAuthorized'
+    | 'EInvalidLotteryState'
+    | 'ELotteryExpired'
+    | 'EInvalidAmount'
+    | 'EInvalidQuantity'
+    | 'EMaxSupplyReached'
+    | 'EInsufficientPayment'
+    | 'ENotLotteryOwner'
+    | 'EInvalidDuration'
+    | 'EProtocolPaused'
+    | 'ESupplyExceeded'
+    | 'UserRejected'
+    | 'InsufficientGas'
+    | 'Unknown';
+
+interface ErrorCopy {
+    code: MeltyFiErrorCode;
+    title: string;
+    message: string;
+    suggestion?: string;
+}
+
+const CORE_ERRORS: Record<number, ErrorCopy> = {
+    1: {
+        code: 'ENotAuthorized',
+        title: 'Not authorized',
+        message: 'This WonkaBar can only be claimed by the address that bought it.',
+        suggestion: 'Switch to the wallet that purchased the WonkaBar.',
+    },
+    2: {
+        code: 'EInvalidLotteryState',
+        title: 'Lottery is not in the right state',
+        message: 'The lottery has already been resolved, cancelled or is still running.',
+        suggestion: 'Refresh the page to load the latest lottery state.',
+    },
+    3: {
+        code: 'ELotteryExpired',
+        title: 'Lottery has expired',
+        message: 'WonkaBars can no longer be bought for this lottery.',
+        suggestion: 'Resolve the lottery, then claim your refund or prize.',
+    },
+    4: {
+        code: 'EInvalidAmount',
+        title: 'Invalid amount',
+        message: 'The price, supply or referenced lottery does not match what the protocol expects.',
+        suggestion: 'Check the lottery parameters and that the WonkaBar or receipt belongs to this lottery.',
+    },
+    5: {
+        code: 'EInvalidQuantity',
+        title: 'Invalid quantity',
+        message: 'You must buy at least one WonkaBar.',
+        suggestion: 'Increase the quantity and try again.',
+    },
+    6: {
+        code: 'EMaxSupplyReached',
+        title: 'Not enough WonkaBars left',
+        message: 'This purchase would exceed the lottery\'s maximum supply.',
+        suggestion: 'Lower the quantity to the number of WonkaBars still available.',
+    },
+    7: {
+        code: 'EInsufficientPayment',
+        title: 'Insufficient payment',
+        message: 'The SUI provided does not cover the required amount.',
+        suggestion: 'Top up your wallet and try again.',
+    },
+    9: {
+        code: 'ENotLotteryOwner',
+        title: 'Not the lottery owner',
+        message: 'Only the address the LotteryReceipt was issued to can cancel this lottery.',
+        suggestion: 'Switch to the wallet that created the lottery.',
+    },
+    11: {
+        code: 'EInvalidDuration',
+        title: 'Invalid duration',
+        message: 'Lotteries must run between 1 and 30 days.',
+        suggestion: 'Pick a duration within the allowed range.',
+    },
+    12: {
+        code: 'EProtocolPaused',
+        title: 'Protocol paused',
+        message: 'MeltyFi is temporarily paused by the administrators.',
+        suggestion: 'Try again once the protocol is unpaused.',
+    },
+};
+
+const CHOCO_CHIP_ERRORS: Record<number, ErrorCopy> = {
+    1: {
+        code: 'ENotAuthorized',
+        title: 'Not an authorized minter',
+        message: 'Only authorized minters can mint ChocoChips, and a minter cannot be authorized twice.',
+    },
+    2: {
+        code: 'EInvalidAmount',
+        title: 'Invalid amount',
+        message: 'The ChocoChip amount must be greater than zero.',
+    },
+    3: {
+        code: 'ESupplyExceeded',
+        title: 'Supply cap reached',
+        message: 'Minting this amount would exceed the ChocoChip maximum supply.',
+    },
+};
+
+const MODULE_ERRORS: Record<MeltyFiModule, Record<number, ErrorCopy>> = {
+    core: CORE_ERRORS,
+    choco_chip: CHOCO_CHIP_ERRORS,
+};
+
+export interface MoveAbort {
+    address: string;
+    module: string;
+    functionName?: string;
+    abortCode: number;
+}
+
+export class MeltyFiError extends Error {
+    readonly code: MeltyFiErrorCode;
+    readonly title: string;
+    readonly suggestion?: string;
+    readonly abort?: MoveAbort;
+
+    constructor(copy: ErrorCopy, options: { abort?: MoveAbort; cause?: unknown } = {}) {
+        super(copy.message, { cause: options.cause });
+        this.name = 'MeltyFiError';
+        this.code = copy.code;
+        this.title = copy.title;
+        this.suggestion = copy.suggestion;
+        this.abort = options.abort;
+    }
+}
+
+// Matches the MoveAbort debug format used in execution and dry-run errors, e.g.
+// MoveAbort(MoveLocation { module: ModuleId { address: 0x.., name: Identifier("core") }, ..., function_name: Some("buy_wonka_bars") }, 6)
+const MOVE_ABORT_PATTERN = /MoveAbort\(MoveLocation \{ module: ModuleId \{ address: (\w+), name: Identifier\("(\w+)"\) \}(?:.*?function_name: Some\("(\w+)"\))?.*?\}, (\d+)\)/s;
+
+export function parseMoveAbort(message: string): MoveAbort | null {
+    const match = MOVE_ABORT_PATTERN.exec(message);
+    if (!match) return null;
+
+    const [, address, module, functionName, abortCode] = match;
+    return { address, module, functionName, abortCode: Number(abortCode) };
+}
+
+export function toMeltyFiError(error: unknown, packageId: string): MeltyFiError {
+    if (error instanceof MeltyFiError) return error;
+
+    const message = error instanceof Error ? error.message : String(error);
+    const abort = parseMoveAbort(message);
+
+    if (abort) {
+        // Another package can abort from a module of the same name with overlapping codes
+        const isMeltyFiAbort = normalizeSuiAddress(abort.address) === normalizeSuiAddress(packageId);
+        const copy = isMeltyFiAbort ? MODULE_ERRORS[abort.module as MeltyFiModule]?.[abort.abortCode] : undefined;
+        if (copy) return new MeltyFiError(copy, { abort, cause: error });
+
+        return new MeltyFiError({
+            code: 'Unknown',
+            title: 'Transaction aborted',
+            message: `${abort.module}${abort.functionName ? `::${abort.functionName}` : ''} aborted with code ${abort.abortCode}.`,
+        }, { abort, cause: error });
+    }
+
+    if (/reject/i.test(message)) {
+        return new MeltyFiError({
+            code: 'UserRejected',
+            title: 'Request rejected',
+            message: 'The transaction was rejected in your wallet.',
+        }, { cause: error });
+    }
+
+    if (/InsufficientGas|GasBalanceTooLow|insufficient.*gas/i.test(message)) {
+        return new MeltyFiError({
+            code: 'InsufficientGas',
+            title: 'Not enough SUI for gas',
+            message: 'Your wallet does not hold enough SUI to pay for this transaction.',
+            suggestion: 'Top up your wallet and try again.',
+        }, { cause: error });
+    }
+
+    return new MeltyFiError({
+        code: 'Unknown',
+        title: 'Transaction failed',
+        message,
+    }, { cause: error });
+}
@@ -0,0 +1,172 @@
+/**
+ * Client for the MeltyFi indexer's REST API (see indexer/ at the repository root).
+ * The indexer tails protocol events into SQLite, so one request replaces the
+ * event walks and object reads the app would otherwise do against a fullnode.
+ * The response types are shared with the indexer, which imports them from here.
+ */
+
+export interface IndexedLottery {
+    objectId: string;
+    lotteryId: string;
+    owner: string;
+    nftType: string;
+    // Raw state code from core.move
+    state: number;
+    createdAt: number;
+    expirationDate: number;
+    wonkaPrice: string;
+    maxSupply: string;
+    soldCount: string;
+    totalRaised: string;
+    winner: string | null;
+    winningTicket: string | null;
+    nftClaimed: boolean;
+    resolvedAt: number | null;
+    // In order of each buyer's latest purchase, as in the on-chain participants map
+    participantAddresses: string[];
+}
+
+interface IndexedEventRef {
+    txDigest: string;
+    eventSeq: string;
+    timestamp: number;
+}
+
+export interface IndexedPurchase extends IndexedEventRef {
+    lotteryId: string;
+    buyer: string;
+    quantity: string;
+    totalCost: string;
+    totalSold: string;
+}
+
+export interface IndexedWithdrawal extends IndexedEventRef {
+    lotteryId: string;
+    recipient: string;
+    amount: string;
+    withdrawalType: string;
+}
+
+export interface IndexedMint extends IndexedEventRef {
+    recipient: string;
+    amount: string;
+    minter: string;
+}
+
+export interface IndexedLotteryDetail extends IndexedLottery {
+    purchases: IndexedPurchase[];
+    withdrawals: IndexedWithdrawal[];
+}
+
+export interface IndexedUser {
+    address: string;
+    lotteriesCreated: IndexedLottery[];
+    lotteriesWon: IndexedLottery[];
+    purchases: IndexedPurchase[];
+    withdrawals: IndexedWithdrawal[];
+    mints: IndexedMint[];
+    wonkaBarsBought: string;
+    totalSpent: string;
+    chocoChipsMinted: string;
+}
+
+// Totals over every WonkaBarsPurchased event
+export interface IndexedPurchaseStats {
+    volume: string;
+    wonkaBarsSold: string;
+    uniqueBuyers: number;
+}
+
+export interface IndexedPage<T> {
+    data: T[];
+    total: number;
+    limit: number;
+    offset: number;
+}
+
+export interface IndexerCheckpoint {
+    txDigest: string;
+    eventSeq: string;
+    updatedAt: number;
+}
+
+export interface IndexerStatus {
+    network: string;
+    packageId: string;
+    checkpoints: Record<string, IndexerCheckpoint>;
+}
+
+export interface LotteryListQuery {
+    state?: number;
+    owner?: string;
+    // Keyset bounds on the numeric lottery ID, exclusive
+    before?: string;
+    after?: string;
+    // Lottery object IDs, at most INDEXER_MAX_PAGE_SIZE
+    ids?: string[];
+    // Numeric lottery IDs, at most INDEXER_MAX_PAGE_SIZE
+    lotteryIds?: string[];
+    limit?: number;
+    offset?: number;
+}
+
+// Largest page the indexer returns from list endpoints
+export const INDEXER_MAX_PAGE_SIZE = 200;
+
+export class IndexerError extends Error {
+    constructor(message: string, readonly status?: number) {
+        super(message);
+        this.name = 'IndexerError';
+    }
+}
+
+async function request<T>(baseUrl: string, path: string): Promise<T> {
+    const url = `${baseUrl.replace(/\/+$/, '')}${path}`;
+    let response: Response;
+    try {
+        response = await fetch(url, { headers: { Accept: 'application/json' } });
+    } catch (error) {
+        throw new IndexerError(`Indexer unreachable at ${url}: ${(error as Error).message}`);
+    }
+
+    if (!response.ok) {
+        const body = await response.json().catch(() => null);
+        throw new IndexerError(body?.error ?? `Indexer returned ${response.status} for ${path}`, response.status);
+    }
+    return response.json() as Promise<T>;
+}
+
+function toSearchParams(query: Record<string, string | number | string[] | undefined>): string {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => {
+        if (value !== undefined) params.set(key, Array.isArray(value) ? value.join(',') : String(value));
+    });
+    const search = params.toString();
+    return search ? `?${search}` : '';
+}
+
+export function fetchIndexerStatus(baseUrl: string): Promise<IndexerStatus> {
+    return request(baseUrl, '/health');
+}
+
+export function fetchIndexedLotteries(baseUrl: string, query: LotteryListQuery = {}): Promise<IndexedPage<IndexedLottery>> {
+    return request(baseUrl, `/lotteries${toSearchParams({ ...query })}`);
+}
+
+// Accepts the numeric lottery ID or the Lottery object ID; null when the indexer has not seen it
+export async function fetchIndexedLottery(baseUrl: string, id: string): Promise<IndexedLotteryDetail | null> {
+    try {
+        return await request<IndexedLotteryDetail>(baseUrl, `/lotteries/${encodeURIComponent(id)}`);
+    } catch (error) {
+        if (error instanceof IndexerError && error.status === 404) return null;
+        throw error;
+    }
+}
+
+export function fetchIndexedPurchaseStats(baseUrl: string): Promise<IndexedPurchaseStats> {
+    return request(baseUrl, '/stats');
+}
+
+export function fetchIndexedUser(baseUrl: string, address: string): Promise<IndexedUser> {
+    return request(baseUrl, `/users/${encodeURIComponent(address)}`);
+}
@@ -0,0 +1,22 @@
+import type { SuiClient } from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+// devInspect only simulates, so any sender works
+const INSPECT_SENDER = normalizeSuiAddress('0x0');
+
+// Simulate read-only Move calls and return the raw BCS bytes of each call's return values
+export async function devInspectReturnValues(suiClient: SuiClient, tx: Transaction): Promise<Uint8Array[][]> {
+    const result = await suiClient.devInspectTransactionBlock({
+        sender: INSPECT_SENDER,
+        transactionBlock: tx,
+    });
+
+    if (result.effects.status.status !== 'success') {
+        throw new Error(result.error || result.effects.status.error || 'devInspect failed');
+    }
+
+    return (result.results ?? []).map((call) =>
+        (call.returnValues ?? []).map(([bytes]) => Uint8Array.from(bytes))
+    );
+}
@@ -0,0 +1,46 @@
+/**
+ * Structured logging for the keeper and indexer: one JSON object per line, so
+ * the output can be piped straight into jq or a log collector.
+ */
+
+export type LogLevel = 'debug' | 'info' | 'warn' | 'error';
+
+export type LogFields = Record<string, unknown>;
+
+const LOG_LEVELS: LogLevel[] = ['debug', 'info', 'warn', 'error'];
+
+export function isLogLevel(value: string): value is LogLevel {
+    return (LOG_LEVELS as string[]).includes(value);
+}
+
+export interface Logger {
+    debug(msg: string, fields?: LogFields): void;
+    info(msg: string, fields?: LogFields): void;
+    warn(msg: string, fields?: LogFields): void;
+    error(msg: string, fields?: LogFields): void;
+    child(fields: LogFields): Logger;
+}
+
+// BigInts and Errors are not JSON-serializable as-is
+function serialize(_key: string, value: unknown): unknown {
+    if (typeof value === 'bigint') return value.toString();
+    if (value instanceof Error) return { name: value.name, message: value.message };
+    return value;
+}
+
+export function createLogger(minLevel: LogLevel = 'info', baseFields: LogFields = {}): Logger {
+    const write = (level: LogLevel, msg: string, fields: LogFields = {}) => {
+        if (LOG_LEVELS.indexOf(level) < LOG_LEVELS.indexOf(minLevel)) return;
+
+        const line = JSON.stringify({ time: new Date().toISOString(), level, msg, ...baseFields, ...fields }, serialize);
+        (level === 'warn' || level === 'error' ? process.stderr : process.stdout).write(`${line}\n`);
+    };
+
+    return {
+        debug: (msg, fields) => write('debug', msg, fields),
+        info: (msg, fields) => write('info', msg, fields),
+        warn: (msg, fields) => write('warn', msg, fields),
+        error: (msg, fields) => write('error', msg, fields),
+        child: (fields) => createLogger(minLevel, { ...baseFields, ...fields }),
+    };
+}
@@ -0,0 +1,270 @@
+import type { EventId, SuiClient, SuiEvent, SuiEventFilter } from '@mysten/sui/client';
+
+/**
+ * Streams MeltyFi core events to a callback.
+ * A websocket subscription is preferred; when the node does not offer one
+ * (public fullnodes have dropped it), the same events are read by polling
+ * queryEvents from a cursor, so callers never need to know which transport is live.
+ */
+
+export type MeltyFiEvent =
+    | { type: 'LotteryCreated'; lotteryId: string; owner: string; nftType: string; expirationDate: number; wonkaPrice: string; maxSupply: string }
+    | { type: 'WonkaBarsPurchased'; lotteryId: string; buyer: string; quantity: string; totalCost: string; totalSold: string }
+    | { type: 'LotteryResolved'; lotteryId: string; winner?: string; winningTicket: string; totalRaised: string; state: number }
+    | { type: 'FundsWithdrawn'; lotteryId: string; recipient: string; amount: string; withdrawalType: string }
+    | { type: 'ProtocolUpdated'; admin: string; action: string; data: string };
+
+export type MeltyFiEventType = MeltyFiEvent['type'];
+
+export type EventTransport = 'subscription' | 'polling';
+
+export interface WatchOptions {
+    pollInterval?: number;
+    subscribeTimeout?: number;
+    onTransportChange?: (transport: EventTransport) => void;
+}
+
+const DEFAULT_POLL_INTERVAL = 5000;
+const DEFAULT_SUBSCRIBE_TIMEOUT = 5000;
+const EVENT_PAGE_SIZE = 50;
+
+// How often a live subscription is checked against queryEvents for events it failed to deliver
+const SUBSCRIPTION_CHECK_INTERVAL = 30000;
+
+// Recently delivered event IDs remembered to drop duplicates between the two transports
+const DELIVERED_EVENT_MEMORY = 500;
+
+// Backoff bounds for retrying the lookup of the newest existing event
+const LATEST_EVENT_RETRY_MIN = 1000;
+const LATEST_EVENT_RETRY_MAX = 30000;
+
+// Option<address> is rendered either as the address or as { vec: [address] } depending on the node version
+function parseOptionalAddress(value: any): string | undefined {
+    if (typeof value === 'string') return value;
+    return value?.vec?.[0] ?? undefined;
+}
+
+// Decode an event's Move JSON given its struct type; shared by JSON-RPC and GraphQL readers
+export function parseMeltyFiEventJson(type: string, json: any): MeltyFiEvent | null {
+    if (!json) return null;
+
+    switch (type.split('::').pop()) {
+        case 'LotteryCreated':
+            return {
+                type: 'LotteryCreated',
+                lotteryId: String(json.lottery_id),
+                owner: json.owner,
+                nftType: json.nft_type,
+                expirationDate: Number(json.expiration_date),
+                wonkaPrice: String(json.wonka_price),
+                maxSupply: String(json.max_supply),
+            };
+        case 'WonkaBarsPurchased':
+            return {
+                type: 'WonkaBarsPurchased',
+                lotteryId: String(json.lottery_id),
+                buyer: json.buyer,
+                quantity: String(json.quantity),
+                totalCost: String(json.total_cost),
+                totalSold: String(json.total_sold),
+            };
+        case 'LotteryResolved':
+            return {
+                type: 'LotteryResolved',
+                lotteryId: String(json.lottery_id),
+                winner: parseOptionalAddress(json.winner),
+                winningTicket: String(json.winning_ticket),
+                totalRaised: String(json.total_raised),
+                state: Number(json.state),
+            };
+        case 'FundsWithdrawn':
+            return {
+                type: 'FundsWithdrawn',
+                lotteryId: String(json.lottery_id),
+                recipient: json.recipient,
+                amount: String(json.amount),
+                withdrawalType: json.withdrawal_type,
+            };
+        case 'ProtocolUpdated':
+            return { type: 'ProtocolUpdated', admin: json.admin, action: json.action, data: json.data };
+        default:
+            return null;
+    }
+}
+
+export function parseMeltyFiEvent(event: SuiEvent): MeltyFiEvent | null {
+    return parseMeltyFiEventJson(event.type, event.parsedJson);
+}
+
+const eventKey = (id: EventId) => `${id.txDigest}:${id.eventSeq}`;
+
+function toMeltyFiEvents(events: SuiEvent[]): MeltyFiEvent[] {
+    return events
+        .map(parseMeltyFiEvent)
+        .filter((event): event is MeltyFiEvent => event !== null);
+}
+
+function withTimeout<T>(promise: Promise<T>, ms: number): Promise<T> {
+    return new Promise((resolve, reject) => {
+        const timer = setTimeout(() => reject(new Error(`Timed out after ${ms}ms`)), ms);
+        promise.then(
+            (value) => { clearTimeout(timer); resolve(value); },
+            (error) => { clearTimeout(timer); reject(error); }
+        );
+    });
+}
+
+// Read every event after the cursor, returning the new cursor
+async function pollEvents(
+    suiClient: SuiClient,
+    filter: SuiEventFilter,
+    cursor: EventId | null,
+    onEvents: (events: SuiEvent[]) => void
+): Promise<EventId | null> {
+    let hasNextPage = true;
+    while (hasNextPage) {
+        const page = await suiClient.queryEvents({ query: filter, cursor, limit: EVENT_PAGE_SIZE, order: 'ascending' });
+        if (page.data.length > 0) onEvents(page.data);
+        cursor = page.data[page.data.length - 1]?.id ?? cursor;
+        hasNextPage = page.hasNextPage;
+    }
+    return cursor;
+}
+
+/**
+ * Starts watching events emitted by the core module of the given package and returns a function
+ * that stops it. Only events emitted after the call are delivered. A subscription that stops
+ * delivering (a dropped websocket) is detected by a periodic check and replaced by polling.
+ */
+export function watchMeltyFiEvents(
+    suiClient: SuiClient,
+    packageId: string,
+    onEvents: (events: MeltyFiEvent[]) => void,
+    {
+        pollInterval = DEFAULT_POLL_INTERVAL,
+        subscribeTimeout = DEFAULT_SUBSCRIBE_TIMEOUT,
+        onTransportChange,
+    }: WatchOptions = {}
+): () => void {
+    // Matches the emitting module, so events from calls through the meltyfi facade or other packages' PTBs are included
+    const filter: SuiEventFilter = { MoveEventModule: { package: packageId, module: 'core' } };
+    let stopped = false;
+    let unsubscribe: (() => Promise<boolean>) | null = null;
+    let pollTimer: ReturnType<typeof setTimeout> | null = null;
+    let checkTimer: ReturnType<typeof setInterval> | null = null;
+
+    const delivered = new Set<string>();
+    const deliver = (events: SuiEvent[]) => {
+        const fresh = events.filter((event) => !delivered.has(eventKey(event.id)));
+        fresh.forEach((event) => {
+            delivered.add(eventKey(event.id));
+            if (delivered.size > DELIVERED_EVENT_MEMORY) delivered.delete(delivered.values().next().value!);
+        });
+        if (fresh.length > 0) onEvents(toMeltyFiEvents(fresh));
+    };
+
+    // Start from the newest existing event so history is not replayed. A failed lookup is retried
+    // with backoff, since falling back to a null cursor would replay every event from genesis.
+    const readLatestCursor = async (): Promise<EventId | null> => {
+        let delay = LATEST_EVENT_RETRY_MIN;
+        while (!stopped) {
+            try {
+                const latest = await suiClient.queryEvents({ query: filter, limit: 1, order: 'descending' });
+                return latest.data[0]?.id ?? null;
+            } catch (error) {
+                console.error('Error reading latest MeltyFi event, retrying:', error);
+            }
+            await new Promise((resolve) => setTimeout(resolve, delay));
+            delay = Math.min(delay * 2, LATEST_EVENT_RETRY_MAX);
+        }
+        return null;
+    };
+    const latestCursor = readLatestCursor();
+
+    const startPolling = (cursor: EventId | null) => {
+        onTransportChange?.('polling');
+
+        const tick = async () => {
+            if (stopped) return;
+            try {
+                cursor = await pollEvents(suiClient, filter, cursor, deliver);
+            } catch (error) {
+                console.error('Error polling MeltyFi events:', error);
+            }
+            if (!stopped) pollTimer = setTimeout(tick, pollInterval);
+        };
+        pollTimer = setTimeout(tick, pollInterval);
+    };
+
+    // Compare what the node has against what the subscription delivered. Events newer than
+    // subscribeTimeout may still be in flight; anything older that was never delivered means
+    // the subscription has dropped.
+    const checkSubscription = async (cursor: EventId | null) => {
+        const events: SuiEvent[] = [];
+        try {
+            await pollEvents(suiClient, filter, cursor, (page) => events.push(...page));
+        } catch (error) {
+            console.error('Error checking MeltyFi event subscription:', error);
+            return cursor;
+        }
+        if (stopped) return cursor;
+
+        const deadline = Date.now() - subscribeTimeout;
+        const missed = events.some((event) =>
+            !delivered.has(eventKey(event.id)) && Number(event.timestampMs ?? 0) < deadline
+        );
+        if (missed) {
+            console.warn('Event subscription stopped delivering, falling back to polling');
+            if (checkTimer) clearInterval(checkTimer);
+            unsubscribe?.().catch(() => undefined);
+            unsubscribe = null;
+            deliver(events);
+            startPolling(events[events.length - 1]?.id ?? cursor);
+            return cursor;
+        }
+
+        // Advance past the events already delivered, stopping at the first one still in flight
+        const pending = events.findIndex((event) => !delivered.has(eventKey(event.id)));
+        const settled = pending === -1 ? events : events.slice(0, pending);
+        return settled[settled.length - 1]?.id ?? cursor;
+    };
+
+    const subscription = suiClient.subscribeEvent({
+        filter,
+        onMessage: (event) => deliver([event]),
+    });
+
+    withTimeout(subscription, subscribeTimeout)
+        .then(async (unsubscribeFn) => {
+            if (stopped) {
+                unsubscribeFn().catch(() => undefined);
+                return;
+            }
+            unsubscribe = unsubscribeFn;
+            onTransportChange?.('subscription');
+
+            let checkedCursor = await latestCursor;
+            if (stopped) return;
+            let checking = false;
+            checkTimer = setInterval(async () => {
+                if (checking || stopped) return;
+                checking = true;
+                checkedCursor = await checkSubscription(checkedCursor);
+                checking = false;
+            }, SUBSCRIPTION_CHECK_INTERVAL);
+        })
+        .catch(async (error) => {
+            console.warn('Event subscription unavailable, falling back to polling:', error);
+            // A subscription that completes after the timeout would duplicate the polled events
+            subscription.then((unsubscribeFn) => unsubscribeFn()).catch(() => undefined);
+            const cursor = await latestCursor;
+            if (!stopped) startPolling(cursor);
+        });
+
+    return () => {
+        stopped = true;
+        if (pollTimer) clearTimeout(pollTimer);
+        if (checkTimer) clearInterval(checkTimer);
+        unsubscribe?.().catch(() => undefined);
+    };
+}
@@ -0,0 +1,185 @@
+import { normalizeImageUrl } from '@/lib/utils';
+import type { SuiClient, SuiObjectResponse } from '@mysten/sui/client';
+
+/**
+ * MeltyFi's on-chain objects and how they are read.
+ * Parsers take the Move struct's fields as JSON, so JSON-RPC content and the
+ * GraphQL `json` rendering of the same object go through the same code.
+ */
+
+export type LotteryState = 'ACTIVE' | 'CONCLUDED' | 'CANCELLED' | 'EXPIRED';
+
+export interface CollateralNft {
+    id: string;
+    name: string;
+    imageUrl: string;
+    collection?: string;
+    type?: string;
+}
+
+export interface Lottery {
+    id: string;
+    lotteryId: string;
+    owner: string;
+    state: LotteryState;
+    createdAt: number;
+    expirationDate: number;
+    wonkaBarPrice: string;
+    maxSupply: string;
+    soldCount: string;
+    totalRaised: string;
+    winner?: string;
+    winningTicket?: string;
+    collateralNft: CollateralNft;
+    // Whether the collateral has left the lottery; undefined until that is known
+    nftClaimed?: boolean;
+    participants: number;
+    participantAddresses: string[];
+}
+
+export interface LotteryParticipant {
+    address: string;
+    tickets: string;
+}
+
+export interface WonkaBar {
+    id: string;
+    lotteryId: string;
+    owner: string;
+    ticketCount: string;
+    purchasedAt: number;
+}
+
+// Lottery state codes as defined in core.move
+export const LOTTERY_STATES: LotteryState[] = ['ACTIVE', 'CONCLUDED', 'CANCELLED', 'EXPIRED'];
+
+// Dynamic object field key under which create_lottery stores the collateral (b"nft")
+const NFT_FIELD_NAME = { type: 'vector<u8>', value: Array.from(new TextEncoder().encode('nft')) };
+
+// Shown until the collateral is resolved, or after it has been claimed
+export const PLACEHOLDER_NFT: CollateralNft = {
+    id: 'nft_placeholder',
+    name: 'Collateral NFT',
+    imageUrl: '/placeholder-nft.png',
+    collection: 'Unknown'
+};
+
+// Helper function to parse object content
+export function parseObjectContent(obj: SuiObjectResponse): any {
+    if (obj.data?.content?.dataType === 'moveObject') {
+        return (obj.data.content as any).fields;
+    }
+    return null;
+}
+
+// JSON-RPC wraps nested structs in { fields }, GraphQL renders them bare
+const unwrap = (value: any) => value?.fields ?? value;
+
+// Entries of the participants VecMap<address, u64>, in insertion order
+function participantEntries(fields: any): any[] {
+    return (unwrap(fields.participants)?.contents ?? []).map(unwrap);
+}
+
+export function parseLotteryFields(objectId: string, fields: any): Lottery | null {
+    try {
+        const state = LOTTERY_STATES[Number(fields.state)] ?? 'ACTIVE';
+        const participants = participantEntries(fields);
+        return {
+            id: objectId,
+            lotteryId: fields.lottery_id?.toString() || '0',
+            owner: fields.owner || '',
+            state,
+            createdAt: parseInt(fields.created_at || '0'),
+            expirationDate: parseInt(fields.expiration_date || '0'),
+            wonkaBarPrice: fields.wonka_price?.toString() || '0',
+            maxSupply: fields.max_supply?.toString() || '0',
+            soldCount: fields.sold_count?.toString() || '0',
+            totalRaised: fields.total_raised?.toString() || '0',
+            winner: fields.winner || undefined,
+            winningTicket: state === 'CONCLUDED' ? fields.winning_ticket?.toString() : undefined,
+            collateralNft: PLACEHOLDER_NFT,
+            participants: participants.length,
+            participantAddresses: participants.map((entry) => entry.key ?? '')
+        };
+    } catch (error) {
+        console.error('Error parsing Lottery:', error);
+        return null;
+    }
+}
+
+// Parse Lottery object
+export function parseLottery(obj: SuiObjectResponse): Lottery | null {
+    const fields = parseObjectContent(obj);
+    if (!fields || !obj.data?.objectId) return null;
+    return parseLotteryFields(obj.data.objectId, fields);
+}
+
+// Read the participants VecMap<address, u64> (address -> ticket count)
+export function parseParticipantFields(fields: any): LotteryParticipant[] {
+    return participantEntries(fields).map((entry) => ({
+        address: entry.key ?? '',
+        tickets: entry.value?.toString() ?? '0',
+    }));
+}
+
+export function parseWonkaBarFields(objectId: string, fields: any): WonkaBar | null {
+    try {
+        return {
+            id: objectId,
+            lotteryId: fields.lottery_id?.toString() || '0',
+            owner: fields.owner || '',
+            ticketCount: fields.ticket_count?.toString() || '1',
+            purchasedAt: parseInt(fields.purchased_at || '0')
+        };
+    } catch (error) {
+        console.error('Error parsing WonkaBar:', error);
+        return null;
+    }
+}
+
+// Parse WonkaBar object
+export function parseWonkaBar(obj: SuiObjectResponse): WonkaBar | null {
+    const fields = parseObjectContent(obj);
+    if (!fields || !obj.data?.objectId) return null;
+    return parseWonkaBarFields(obj.data.objectId, fields);
+}
+
+// Parse collateral NFT object, preferring Sui Display data over raw fields
+function parseCollateralNft(obj: SuiObjectResponse): CollateralNft | null {
+    if (!obj.data?.objectId) return null;
+
+    const display = obj.data.display?.data ?? {};
+    const fields = parseObjectContent(obj) ?? {};
+
+    return {
+        id: obj.data.objectId,
+        name: display.name || fields.name || `NFT ${obj.data.objectId.slice(-8)}`,
+        imageUrl: normalizeImageUrl(display.image_url || display.url || fields.image_url || fields.url),
+        collection: display.collection_name || display.collection || display.project_name || fields.collection_name,
+        type: obj.data.type ?? undefined
+    };
+}
+
+// Apply a collateral lookup: undefined while loading or failed, null once the NFT has been claimed
+export function withCollateral(lottery: Lottery, collateralNft: CollateralNft | null | undefined): Lottery {
+    if (collateralNft === undefined) return lottery;
+    return collateralNft
+        ? { ...lottery, collateralNft, nftClaimed: false }
+        : { ...lottery, nftClaimed: true };
+}
+
+// Resolve the collateral NFT held by a lottery, or null once it has been claimed
+export async function fetchCollateralNft(suiClient: SuiClient, lotteryObjectId: string): Promise<CollateralNft | null> {
+    const field = await suiClient.getDynamicFieldObject({
+        parentId: lotteryObjectId,
+        name: NFT_FIELD_NAME,
+    });
+    const nftId = field.data?.objectId;
+    if (!nftId) return null;
+
+    const nft = await suiClient.getObject({
+        id: nftId,
+        options: { showContent: true, showDisplay: true, showType: true },
+    });
+    return parseCollateralNft(nft);
+}
@@ -0,0 +1,252 @@
+import { Transaction } from '@mysten/sui/transactions';
+import { SUI_CLOCK_OBJECT_ID } from '@mysten/sui/utils';
+
+/**
+ * Builds the transactions for every MeltyFi protocol action.
+ * These functions are pure: they only describe the Move calls and never touch
+ * a wallet or client, so they can be used from React hooks, Node scripts and tests alike.
+ * Each builder accepts an optional existing transaction to append to.
+ */
+
+// Shared Random object (not exported by @mysten/sui/utils)
+export const SUI_RANDOM_OBJECT_ID = '0x8';
+
+export interface MeltyFiTxConfig {
+    packageId: string;
+    protocolObjectId: string;
+}
+
+export interface CreateLotteryParams {
+    nftId: string;
+    nftType: string;
+    owner: string;
+    expirationDate: number;
+    wonkaBarPrice: string;
+    maxSupply: string;
+}
+
+export interface BuyWonkaBarsParams {
+    lotteryId: string;
+    quantity: number;
+    wonkaBarPrice: string;
+    buyer: string;
+}
+
+export interface ResolveLotteryParams {
+    lotteryId: string;
+}
+
+export interface CancelLotteryParams {
+    lotteryId: string;
+    receiptId: string;
+    repayment: string;
+}
+
+export interface ClaimRewardsParams {
+    lotteryId: string;
+    wonkaBarId: string;
+    nftType: string;
+    isWinner: boolean;
+    claimer: string;
+}
+
+export interface SetProtocolPauseParams {
+    adminCapId: string;
+    paused: boolean;
+}
+
+export interface WithdrawProtocolFeesParams {
+    adminCapId: string;
+    amount: string;
+}
+
+export interface AuthorizeChocoMinterParams {
+    chocolateFactoryId: string;
+    factoryAdminId: string;
+    minter: string;
+}
+
+export function getWonkaBarsCost(wonkaBarPrice: string, quantity: number): bigint {
+    return BigInt(wonkaBarPrice) * BigInt(quantity);
+}
+
+function coreTarget(config: MeltyFiTxConfig, fn: string): string {
+    return `${config.packageId}::core::${fn}`;
+}
+
+// Admin actions go through the meltyfi facade module
+function meltyfiTarget(config: MeltyFiTxConfig, fn: string): string {
+    return `${config.packageId}::meltyfi::${fn}`;
+}
+
+export function buildCreateLotteryTx(
+    config: MeltyFiTxConfig,
+    { nftId, nftType, owner, expirationDate, wonkaBarPrice, maxSupply }: CreateLotteryParams,
+    tx: Transaction = new Transaction()
+): Transaction {
+    const receipt = tx.moveCall({
+        target: coreTarget(config, 'create_lottery'),
+        typeArguments: [nftType],
+        arguments: [
+            tx.object(config.protocolObjectId),
+            tx.object(nftId),
+            tx.pure.u64(expirationDate),
+            tx.pure.u64(wonkaBarPrice),
+            tx.pure.u64(maxSupply),
+            tx.object(SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+
+    // The LotteryReceipt has no drop ability and grants management rights, so hand it to the owner
+    tx.transferObjects([receipt], tx.pure.address(owner));
+
+    return tx;
+}
+
+export function buildBuyWonkaBarsTx(
+    config: MeltyFiTxConfig,
+    { lotteryId, quantity, wonkaBarPrice, buyer }: BuyWonkaBarsParams,
+    tx: Transaction = new Transaction()
+): Transaction {
+    // Split the exact cost from the gas coin; the wallet merges the sender's SUI coins into it
+    const [payment] = tx.splitCoins(tx.gas, [tx.pure.u64(getWonkaBarsCost(wonkaBarPrice, quantity))]);
+
+    const wonkaBar = tx.moveCall({
+        target: coreTarget(config, 'buy_wonka_bars'),
+        arguments: [
+            tx.object(config.protocolObjectId),
+            tx.object(lotteryId),
+            payment,
+            tx.pure.u64(quantity),
+            tx.object(SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+
+    tx.transferObjects([wonkaBar], tx.pure.address(buyer));
+
+    return tx;
+}
+
+export function buildResolveLotteryTx(
+    config: MeltyFiTxConfig,
+    { lotteryId }: ResolveLotteryParams,
+    tx: Transaction = new Transaction()
+): Transaction {
+    tx.moveCall({
+        target: coreTarget(config, 'resolve_lottery'),
+        arguments: [
+            tx.object(config.protocolObjectId),
+            tx.object(lotteryId),
+            tx.object(SUI_RANDOM_OBJECT_ID),
+            tx.object(SUI_CLOCK_OBJECT_ID),
+        ],
+    });
+
+    return tx;
+}
+
+export function buildClaimRewardsTx(
+    config: MeltyFiTxConfig,
+    { lotteryId, wonkaBarId, nftType, isWinner, claimer }: ClaimRewardsParams,
+    tx: Transaction = new Transaction()
+): Transaction {
+    const nftOption = tx.moveCall({
+        target: coreTarget(config, 'claim_rewards'),
+        typeArguments: [nftType],
+        arguments: [
+            tx.object(lotteryId),
+            tx.object(wonkaBarId),
+        ],
+    });
+
+    // Option<T> has no drop ability: the winner unwraps the NFT, everyone else destroys the empty option
+    if (isWinner) {
+        const nft = tx.moveCall({
+            target: '0x1::option::destroy_some',
+            typeArguments: [nftType],
+            arguments: [nftOption],
+        });
+        tx.transferObjects([nft], tx.pure.address(claimer));
+    } else {
+        tx.moveCall({
+            target: '0x1::option::destroy_none',
+            typeArguments: [nftType],
+            arguments: [nftOption],
+        });
+    }
+
+    return tx;
+}
+
+export function buildCancelLotteryTx(
+    config: MeltyFiTxConfig,
+    { lotteryId, receiptId, repayment }: CancelLotteryParams,
+    tx: Transaction = new Transaction()
+): Transaction {
+    // The owner repays everything raised so far so participants can claim refunds
+    const [repaymentCoin] = tx.splitCoins(tx.gas, [tx.pure.u64(repayment)]);
+
+    tx.moveCall({
+        target: coreTarget(config, 'cancel_lottery'),
+        arguments: [
+            tx.object(config.protocolObjectId),
+            tx.object(lotteryId),
+            tx.object(receiptId),
+            repaymentCoin,
+        ],
+    });
+
+    return tx;
+}
+
+export function buildSetProtocolPauseTx(
+    config: MeltyFiTxConfig,
+    { adminCapId, paused }: SetProtocolPauseParams,
+    tx: Transaction = new Transaction()
+): Transaction {
+    tx.moveCall({
+        target: meltyfiTarget(config, 'set_protocol_pause'),
+        arguments: [
+            tx.object(config.protocolObjectId),
+            tx.object(adminCapId),
+            tx.pure.bool(paused),
+        ],
+    });
+
+    return tx;
+}
+
+export function buildWithdrawProtocolFeesTx(
+    config: MeltyFiTxConfig,
+    { adminCapId, amount }: WithdrawProtocolFeesParams,
+    tx: Transaction = new Transaction()
+): Transaction {
+    // The fees are transferred to the sender by the contract
+    tx.moveCall({
+        target: meltyfiTarget(config, 'withdraw_protocol_fees'),
+        arguments: [
+            tx.object(config.protocolObjectId),
+            tx.object(adminCapId),
+            tx.pure.u64(amount),
+        ],
+    });
+
+    return tx;
+}
+
+export function buildAuthorizeChocoMinterTx(
+    config: MeltyFiTxConfig,
+    { chocolateFactoryId, factoryAdminId, minter }: AuthorizeChocoMinterParams,
+    tx: Transaction = new Transaction()
+): Transaction {
+    tx.moveCall({
+        target: meltyfiTarget(config, 'authorize_choco_minter'),
+        arguments: [
+            tx.object(chocolateFactoryId),
+            tx.object(factoryAdminId),
+            tx.pure.address(minter),
+        ],
+    });
+
+    return tx;
+}
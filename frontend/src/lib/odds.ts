@@ -0,0 +1,76 @@
+import { normalizeSuiAddress } from '@mysten/sui/utils';
+
+/**
+ * Win odds as resolve_lottery actually draws them.
+ * The winner is a uniformly random key of the participants map, so every
+ * participating address has the same chance no matter how many WonkaBars it
+ * holds: a first WonkaBar buys a seat in the draw, further ones only cost more.
+ */
+
+export interface OddsInput {
+    participantAddresses: string[];
+    soldCount: string;
+    maxSupply: string;
+    buyer?: string;
+    quantity: number;
+}
+
+export interface WinOdds {
+    isParticipant: boolean;
+    // Probabilities in [0, 1]
+    afterPurchase: number;
+    // If every WonkaBar still unsold after this purchase goes to a new address
+    worstCase: number;
+    // Win chance the purchase itself adds; none for an address already in the draw
+    marginal: number;
+    worstCaseMarginal: number;
+    participantsAfterPurchase: number;
+}
+
+export interface ExpectedValue {
+    // MIST; positive means the purchase is worth more than it costs on average
+    expectedValue: number;
+    // NFT value (MIST) at which the purchase breaks even
+    breakEvenNftValue: number;
+}
+
+// Chance of each participating address, whatever number of WonkaBars it holds
+export function calculateAddressOdds(participants: number): number {
+    return participants > 0 ? 1 / participants : 0;
+}
+
+export function calculateWinOdds({ participantAddresses, soldCount, maxSupply, buyer, quantity }: OddsInput): WinOdds {
+    const participants = participantAddresses.length;
+    const isParticipant = !!buyer && participantAddresses
+        .some((address) => normalizeSuiAddress(address) === normalizeSuiAddress(buyer));
+
+    const participantsAfterPurchase = isParticipant ? participants : participants + 1;
+    const remainingAfterPurchase = Math.max(0, parseInt(maxSupply) - parseInt(soldCount) - quantity);
+    const afterPurchase = calculateAddressOdds(participantsAfterPurchase);
+    const worstCase = 1 / (participantsAfterPurchase + remainingAfterPurchase);
+
+    return {
+        isParticipant,
+        afterPurchase,
+        worstCase,
+        marginal: isParticipant ? 0 : afterPurchase,
+        worstCaseMarginal: isParticipant ? 0 : worstCase,
+        participantsAfterPurchase,
+    };
+}
+
+// Expected value of the purchase: the NFT won with the given probability, minus what is paid.
+// Refunds only exist for cancelled or expired lotteries, so once a winner is drawn losing buyers recover nothing.
+export function calculateExpectedValue(probability: number, nftValue: string, cost: bigint): ExpectedValue {
+    const costMist = Number(cost);
+    return {
+        expectedValue: probability * Number(nftValue) - costMist,
+        breakEvenNftValue: probability > 0 ? costMist / probability : Infinity,
+    };
+}
+
+export function formatProbability(probability: number): string {
+    if (probability <= 0) return '0%';
+    if (probability < 0.001) return '<0.1%';
+    return `${(probability * 100).toFixed(probability < 0.1 ? 1 : 0)}%`;
+}
@@ -0,0 +1,124 @@
+import { fetchIndexedPurchaseStats } from '@/lib/indexer';
+import { devInspectReturnValues } from '@/lib/inspect';
+import { bcs } from '@mysten/sui/bcs';
+import type { EventId, SuiClient } from '@mysten/sui/client';
+import { Transaction } from '@mysten/sui/transactions';
+
+/**
+ * Protocol-wide numbers for the home page.
+ * Counters come straight from meltyfi::get_protocol_stats through devInspect,
+ * while trading volume, which no on-chain object records, is read from the
+ * indexer when one is configured, or else summed from WonkaBarsPurchased
+ * events a bounded number of pages at a time from a cursor.
+ */
+
+export interface ProtocolStats {
+    version: number;
+    totalLotteries: number;
+    treasury: string;
+    paused: boolean;
+}
+
+export interface PurchaseVolume {
+    volume: string;
+    wonkaBarsSold: string;
+    uniqueBuyers: number;
+    cursor: EventId | null;
+    // More events remain after the cursor than one fetch reads
+    isPartial: boolean;
+}
+
+export const EMPTY_PURCHASE_VOLUME: PurchaseVolume = {
+    volume: '0',
+    wonkaBarsSold: '0',
+    uniqueBuyers: 0,
+    cursor: null,
+    isPartial: false,
+};
+
+const EVENT_PAGE_SIZE = 50;
+
+// Pages read per fetch; the next fetch continues from the cursor
+const MAX_EVENT_PAGES = 20;
+
+// Buyers already counted for each package, kept here so the query cache only holds their number
+const countedBuyers = new Map<string, Set<string>>();
+
+// Run get_protocol_stats without executing a transaction and decode its (u64, u64, u64, bool) return
+export async function fetchProtocolStats(
+    suiClient: SuiClient,
+    packageId: string,
+    protocolObjectId: string
+): Promise<ProtocolStats> {
+    const tx = new Transaction();
+    tx.moveCall({
+        target: `${packageId}::meltyfi::get_protocol_stats`,
+        arguments: [tx.object(protocolObjectId)],
+    });
+
+    const [returnValues] = await devInspectReturnValues(suiClient, tx);
+    if (!returnValues || returnValues.length !== 4) {
+        throw new Error('Unexpected get_protocol_stats return values');
+    }
+
+    const [version, totalLotteries, treasury, paused] = returnValues;
+    return {
+        version: Number(bcs.u64().parse(version)),
+        totalLotteries: Number(bcs.u64().parse(totalLotteries)),
+        treasury: bcs.u64().parse(treasury),
+        paused: bcs.bool().parse(paused),
+    };
+}
+
+// Totals over every purchase, aggregated by the indexer
+export async function fetchIndexedPurchaseVolume(indexerUrl: string): Promise<PurchaseVolume> {
+    return { ...EMPTY_PURCHASE_VOLUME, ...(await fetchIndexedPurchaseStats(indexerUrl)) };
+}
+
+// Add up to MAX_EVENT_PAGES of WonkaBarsPurchased events after the previous cursor to the running totals
+export async function fetchPurchaseVolume(
+    suiClient: SuiClient,
+    packageId: string,
+    previous: PurchaseVolume
+): Promise<PurchaseVolume> {
+    let volume = BigInt(previous.volume);
+    let wonkaBarsSold = BigInt(previous.wonkaBarsSold);
+    let cursor = previous.cursor;
+    let hasNextPage = true;
+
+    // Totals starting over, e.g. after the cache dropped them, count every buyer again
+    let buyers = countedBuyers.get(packageId);
+    if (!buyers || !previous.cursor) {
+        buyers = new Set();
+        countedBuyers.set(packageId, buyers);
+    }
+
+    for (let pages = 0; hasNextPage && pages < MAX_EVENT_PAGES; pages++) {
+        const page = await suiClient.queryEvents({
+            query: { MoveEventType: `${packageId}::core::WonkaBarsPurchased` },
+            cursor,
+            limit: EVENT_PAGE_SIZE,
+            order: 'ascending',
+        });
+
+        for (const event of page.data) {
+            const json = event.parsedJson as any;
+            volume += BigInt(json.total_cost);
+            wonkaBarsSold += BigInt(json.quantity);
+            buyers.add(json.buyer);
+        }
+
+        cursor = page.data[page.data.length - 1]?.id ?? cursor;
+        hasNextPage = page.hasNextPage;
+    }
+
+    if (cursor === previous.cursor) return previous;
+
+    return {
+        volume: volume.toString(),
+        wonkaBarsSold: wonkaBarsSold.toString(),
+        uniqueBuyers: buyers.size,
+        cursor,
+        isPartial: hasNextPage,
+    };
+}
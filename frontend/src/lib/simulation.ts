@@ -0,0 +1,58 @@
+import type { BalanceChange, SuiClient } from '@mysten/sui/client';
+import type { Transaction } from '@mysten/sui/transactions';
+
+export interface SimulatedObject {
+    objectId: string;
+    objectType: string;
+}
+
+export interface SimulationResult {
+    success: boolean;
+    error?: string;
+    // Net gas cost in MIST (computation + storage - rebate)
+    gasCost: bigint;
+    balanceChanges: BalanceChange[];
+    createdObjects: SimulatedObject[];
+}
+
+// Thrown when the user declines a previewed transaction, so callers can skip error toasts
+export class TransactionCancelledError extends Error {
+    constructor() {
+        super('Transaction cancelled');
+        this.name = 'TransactionCancelledError';
+    }
+}
+
+/**
+ * Dry-runs a transaction against the current chain state.
+ * The transaction must already have its sender set; building it also resolves
+ * gas price, budget and payment, which the wallet then reuses when signing.
+ */
+export async function simulateTransaction(suiClient: SuiClient, tx: Transaction): Promise<SimulationResult> {
+    let bytes: Uint8Array;
+    try {
+        bytes = await tx.build({ client: suiClient });
+    } catch (error) {
+        // Building dry-runs internally to estimate the budget, so aborts usually surface here
+        return {
+            success: false,
+            error: error instanceof Error ? error.message : String(error),
+            gasCost: BigInt(0),
+            balanceChanges: [],
+            createdObjects: [],
+        };
+    }
+
+    const result = await suiClient.dryRunTransactionBlock({ transactionBlock: bytes });
+    const { computationCost, storageCost, storageRebate } = result.effects.gasUsed;
+
+    return {
+        success: result.effects.status.status === 'success',
+        error: result.effects.status.error,
+        gasCost: BigInt(computationCost) + BigInt(storageCost) - BigInt(storageRebate),
+        balanceChanges: result.balanceChanges,
+        createdObjects: result.objectChanges.flatMap((change) =>
+            change.type === 'created' ? [{ objectId: change.objectId, objectType: change.objectType }] : []
+        ),
+    };
+}
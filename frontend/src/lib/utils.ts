@@ -25,6 +25,14 @@ export function formatChocoChips(amount: string | number | bigint, decimals = 2)
     return formatted;
 }
 
+// Format a raw coin amount using the decimals from its CoinMetadata
+export function formatCoinAmount(amount: string | number | bigint, coinDecimals: number, decimals = 2): string {
+    const amountBigInt = typeof amount === 'string' ? BigInt(amount) :
+        typeof amount === 'number' ? BigInt(Math.floor(amount)) : amount;
+    const formatted = (Number(amountBigInt) / 10 ** coinDecimals).toFixed(decimals);
+    return formatted;
+}
+
 export function formatTimeLeft(expirationDate: number): string {
     const timeLeft = expirationDate - Date.now();
 
@@ -39,6 +47,25 @@ export function formatTimeLeft(expirationDate: number): string {
     return `${minutes}m`;
 }
 
+export function formatTimeAgo(timestamp: number): string {
+    const elapsed = Date.now() - timestamp;
+
+    const minutes = Math.floor(elapsed / (1000 * 60));
+    const hours = Math.floor(elapsed / (1000 * 60 * 60));
+    const days = Math.floor(elapsed / (1000 * 60 * 60 * 24));
+
+    if (days > 0) return `${days}d ago`;
+    if (hours > 0) return `${hours}h ago`;
+    if (minutes > 0) return `${minutes}m ago`;
+    return 'just now';
+}
+
+export function normalizeImageUrl(url?: string): string {
+    if (!url) return '/placeholder-nft.png';
+    if (url.startsWith('ipfs://')) return `https://ipfs.io/ipfs/${url.slice('ipfs://'.length)}`;
+    return url;
+}
+
 export function getRandomColor(): string {
     const colors = [
         'from-purple-500 to-pink-500',
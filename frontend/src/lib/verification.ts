@@ -0,0 +1,100 @@
+import { EXPECTED_PROTOCOL_VERSION, getMeltyFiTypes, type MeltyFiContracts } from '@/constants/contracts';
+import type { SuiClient, SuiObjectResponse } from '@mysten/sui/client';
+import { normalizeStructTag } from '@mysten/sui/utils';
+
+/**
+ * Verifies a deployment against the chain before the app starts using it,
+ * so a typo'd or stale ID is reported once instead of failing every query.
+ */
+
+// Modules published by contracts/meltyfi
+const EXPECTED_MODULES = ['core', 'choco_chip', 'meltyfi'];
+
+export type VerificationCheckId = 'package' | 'protocol' | 'chocolateFactory' | 'protocolVersion';
+
+export interface VerificationCheck {
+    id: VerificationCheckId;
+    label: string;
+    passed: boolean;
+    detail: string;
+}
+
+function errorMessage(error: unknown): string {
+    return error instanceof Error ? error.message : String(error);
+}
+
+function checkObjectType(
+    id: VerificationCheckId,
+    label: string,
+    object: SuiObjectResponse,
+    expectedType: string
+): VerificationCheck {
+    if (object.error || !object.data) {
+        return { id, label, passed: false, detail: `Object not found (${object.error?.code ?? 'unknown'})` };
+    }
+
+    const actualType = object.data.type ?? '';
+    const passed = actualType !== '' && normalizeStructTag(actualType) === normalizeStructTag(expectedType);
+    return {
+        id,
+        label,
+        passed,
+        detail: passed ? expectedType.split('::').slice(1).join('::') : `Found ${actualType || 'a non-Move object'}`,
+    };
+}
+
+async function checkPackage(suiClient: SuiClient, packageId: string): Promise<VerificationCheck> {
+    const label = 'Package exposes the MeltyFi modules';
+    try {
+        const modules = await suiClient.getNormalizedMoveModulesByPackage({ package: packageId });
+        const missing = EXPECTED_MODULES.filter((name) => !(name in modules));
+        return {
+            id: 'package',
+            label,
+            passed: missing.length === 0,
+            detail: missing.length === 0 ? EXPECTED_MODULES.join(', ') : `Missing ${missing.join(', ')}`,
+        };
+    } catch (error) {
+        return { id: 'package', label, passed: false, detail: errorMessage(error) };
+    }
+}
+
+function checkProtocolVersion(protocol: SuiObjectResponse): VerificationCheck {
+    const label = `Protocol version is ${EXPECTED_PROTOCOL_VERSION}`;
+    const content = protocol.data?.content;
+    const version = content?.dataType === 'moveObject' ? (content.fields as any)?.version : undefined;
+
+    if (version === undefined) {
+        return { id: 'protocolVersion', label, passed: false, detail: 'Protocol version could not be read' };
+    }
+    return {
+        id: 'protocolVersion',
+        label,
+        passed: Number(version) === EXPECTED_PROTOCOL_VERSION,
+        detail: `On-chain version ${version}`,
+    };
+}
+
+export async function verifyDeployment(suiClient: SuiClient, contracts: MeltyFiContracts): Promise<VerificationCheck[]> {
+    const types = getMeltyFiTypes(contracts.packageId);
+
+    const [packageCheck, objects] = await Promise.all([
+        checkPackage(suiClient, contracts.packageId),
+        suiClient.multiGetObjects({
+            ids: [contracts.protocolObjectId, contracts.chocolateFactoryId],
+            options: { showType: true, showContent: true },
+        }),
+    ]);
+    const [protocol, chocolateFactory] = objects;
+
+    const protocolCheck = checkObjectType('protocol', 'Protocol object is a core::Protocol', protocol, types.protocol);
+
+    return [
+        packageCheck,
+        protocolCheck,
+        checkObjectType('chocolateFactory', 'Chocolate factory is a choco_chip::ChocolateFactory', chocolateFactory, types.chocolateFactory),
+        protocolCheck.passed
+            ? checkProtocolVersion(protocol)
+            : { id: 'protocolVersion', label: `Protocol version is ${EXPECTED_PROTOCOL_VERSION}`, passed: false, detail: 'Skipped: Protocol object is invalid' },
+    ];
+}
@@ -0,0 +1,156 @@
+import {
+    INDEXER_MAX_PAGE_SIZE,
+    type IndexedLotteryDetail,
+    type IndexerStatus
+} from '../../frontend/src/lib/indexer';
+import type { Logger } from '../../frontend/src/lib/logger';
+import type { IndexerStore } from './db';
+import { isValidSuiAddress, normalizeSuiAddress } from '@mysten/sui/utils';
+import http from 'http';
+
+/**
+ * Read-only REST API over the store. Response shapes are the Indexed* types
+ * in frontend/src/lib/indexer.ts, which is also the client the app uses.
+ *
+ *   GET /health               network, package and stream checkpoints
+ *   GET /lotteries            ?state=<code>&owner=<address>&before=<id>&after=<id>&ids=<object ids>&lotteryIds=<ids>
+ *                             &limit=&offset=,
+ *                             newest first
+ *   GET /lotteries/:id        by lottery ID or object ID, with purchases and withdrawals
+ *   GET /users/:address       lotteries created and won, purchases, withdrawals, mints
+ *   GET /stats                purchase volume, WonkaBars sold and unique buyers
+ */
+
+export interface ApiContext {
+    store: IndexerStore;
+    network: string;
+    packageId: string;
+    corsOrigin: string;
+    logger: Logger;
+}
+
+const DEFAULT_PAGE_SIZE = 50;
+
+class HttpError extends Error {
+    constructor(readonly status: number, message: string) {
+        super(message);
+        this.name = 'HttpError';
+    }
+}
+
+function readInteger(params: URLSearchParams, name: string, fallback?: number): number | undefined {
+    const raw = params.get(name);
+    if (raw === null || raw === '') return fallback;
+
+    const value = Number(raw);
+    if (!Number.isInteger(value) || value < 0) throw new HttpError(400, `${name} must be a non-negative integer`);
+    return value;
+}
+
+function readLotteryId(params: URLSearchParams, name: string): string | undefined {
+    const raw = params.get(name);
+    if (raw === null || raw === '') return undefined;
+    if (!/^\d+$/.test(raw)) throw new HttpError(400, `${name} must be a lottery ID`);
+    return raw;
+}
+
+// Comma-separated values, capped like a page
+function readList(params: URLSearchParams, name: string): string[] | undefined {
+    const values = params.get(name)?.split(',').filter(Boolean);
+    if (values && values.length > INDEXER_MAX_PAGE_SIZE) {
+        throw new HttpError(400, `${name} accepts at most ${INDEXER_MAX_PAGE_SIZE} values`);
+    }
+    return values;
+}
+
+function readAddress(raw: string, name: string): string {
+    const address = normalizeSuiAddress(raw);
+    if (!isValidSuiAddress(address)) throw new HttpError(400, `${name} is not a valid Sui address`);
+    return address;
+}
+
+function route(ctx: ApiContext, url: URL): unknown {
+    const segments = url.pathname.split('/').filter(Boolean).map(decodeURIComponent);
+
+    if (segments.length === 1 && segments[0] === 'health') {
+        const status: IndexerStatus = {
+            network: ctx.network,
+            packageId: ctx.packageId,
+            checkpoints: ctx.store.getCheckpoints(),
+        };
+        return status;
+    }
+
+    if (segments[0] === 'lotteries' && segments.length === 1) {
+        const owner = url.searchParams.get('owner');
+        const ids = readList(url.searchParams, 'ids');
+        const lotteryIds = readList(url.searchParams, 'lotteryIds');
+        if (lotteryIds?.some((id) => !/^\d+$/.test(id))) throw new HttpError(400, 'lotteryIds must be lottery IDs');
+        return ctx.store.listLotteries({
+            state: readInteger(url.searchParams, 'state'),
+            owner: owner ? readAddress(owner, 'owner') : undefined,
+            before: readLotteryId(url.searchParams, 'before'),
+            after: readLotteryId(url.searchParams, 'after'),
+            ids: ids?.map((id) => readAddress(id, 'ids')),
+            lotteryIds,
+            limit: Math.min(readInteger(url.searchParams, 'limit', DEFAULT_PAGE_SIZE)!, INDEXER_MAX_PAGE_SIZE),
+            offset: readInteger(url.searchParams, 'offset', 0)!,
+        });
+    }
+
+    if (segments[0] === 'lotteries' && segments.length === 2) {
+        const lottery = ctx.store.getLottery(segments[1]);
+        if (!lottery) throw new HttpError(404, `Lottery ${segments[1]} not found`);
+
+        const detail: IndexedLotteryDetail = {
+            ...lottery,
+            purchases: ctx.store.getLotteryPurchases(lottery.lotteryId),
+            withdrawals: ctx.store.getLotteryWithdrawals(lottery.lotteryId),
+        };
+        return detail;
+    }
+
+    if (segments.length === 1 && segments[0] === 'stats') {
+        return ctx.store.getPurchaseStats();
+    }
+
+    if (segments[0] === 'users' && segments.length === 2) {
+        return ctx.store.getUser(readAddress(segments[1], 'address'));
+    }
+
+    throw new HttpError(404, `No route for ${url.pathname}`);
+}
+
+export function createApiServer(ctx: ApiContext): http.Server {
+    return http.createServer((req, res) => {
+        res.setHeader('Access-Control-Allow-Origin', ctx.corsOrigin);
+        res.setHeader('Access-Control-Allow-Methods', 'GET, OPTIONS');
+        res.setHeader('Access-Control-Allow-Headers', 'Accept, Content-Type');
+
+        const send = (status: number, body: unknown) => {
+            res.writeHead(status, { 'Content-Type': 'application/json' });
+            res.end(JSON.stringify(body));
+        };
+
+        if (req.method === 'OPTIONS') {
+            res.writeHead(204);
+            res.end();
+            return;
+        }
+        if (req.method !== 'GET') {
+            send(405, { error: `Method ${req.method} not allowed` });
+            return;
+        }
+
+        try {
+            send(200, route(ctx, new URL(req.url ?? '/', 'http://localhost')));
+        } catch (error) {
+            if (error instanceof HttpError) {
+                send(error.status, { error: error.message });
+                return;
+            }
+            ctx.logger.error('Request failed', { url: req.url, error });
+            send(500, { error: 'Internal indexer error' });
+        }
+    });
+}
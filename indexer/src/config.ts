@@ -0,0 +1,69 @@
+import { NETWORK_CONFIG, isSupportedNetwork, type MeltyFiNetwork } from '../../frontend/src/constants/contracts';
+import { isLogLevel, type LogLevel } from '../../frontend/src/lib/logger';
+import path from 'path';
+
+/**
+ * Indexer settings, read from INDEXER_* environment variables and overridable
+ * with command line flags (--network=<name>, --port=<port>).
+ */
+
+export interface IndexerConfig {
+    network: MeltyFiNetwork;
+    rpcUrl: string;
+    deploymentFile: string;
+    databaseFile: string;
+    host: string;
+    port: number;
+    corsOrigin: string;
+    pollIntervalMs: number;
+    logLevel: LogLevel;
+}
+
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigError';
+    }
+}
+
+const REPO_ROOT = path.resolve(__dirname, '..', '..', '..', '..');
+
+function readFlag(argv: string[], name: string): string | undefined {
+    const prefix = `--${name}=`;
+    return argv.find((arg) => arg.startsWith(prefix))?.slice(prefix.length);
+}
+
+function readPositiveNumber(raw: string | undefined, name: string, fallback: number): number {
+    if (raw === undefined || raw === '') return fallback;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value <= 0) throw new ConfigError(`${name} must be a positive number, got "${raw}"`);
+    return value;
+}
+
+export function loadConfig(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): IndexerConfig {
+    const network = readFlag(argv, 'network') || env.INDEXER_NETWORK || 'testnet';
+    if (!isSupportedNetwork(network)) throw new ConfigError(`Unsupported network "${network}"`);
+
+    const logLevel = env.INDEXER_LOG_LEVEL || 'info';
+    if (!isLogLevel(logLevel)) throw new ConfigError(`Unsupported log level "${logLevel}"`);
+
+    const port = readPositiveNumber(readFlag(argv, 'port') ?? env.INDEXER_PORT, 'INDEXER_PORT', 4000);
+    if (!Number.isInteger(port) || port > 65535) throw new ConfigError(`INDEXER_PORT must be a valid port, got "${port}"`);
+
+    return {
+        network,
+        rpcUrl: env.INDEXER_RPC_URL || NETWORK_CONFIG[network].rpcUrl,
+        deploymentFile: env.INDEXER_DEPLOYMENT_FILE
+            ? path.resolve(env.INDEXER_DEPLOYMENT_FILE)
+            : path.join(REPO_ROOT, 'frontend', 'public', 'deployments', `${network}.json`),
+        databaseFile: env.INDEXER_DATABASE_FILE
+            ? path.resolve(env.INDEXER_DATABASE_FILE)
+            : path.join(REPO_ROOT, 'indexer', 'data', `${network}.db`),
+        host: env.INDEXER_HOST || '127.0.0.1',
+        port,
+        corsOrigin: env.INDEXER_CORS_ORIGIN || '*',
+        pollIntervalMs: readPositiveNumber(env.INDEXER_POLL_INTERVAL_SECONDS, 'INDEXER_POLL_INTERVAL_SECONDS', 5) * 1000,
+        logLevel,
+    };
+}
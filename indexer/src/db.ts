@@ -0,0 +1,420 @@
+import type {
+    IndexedLottery,
+    IndexedMint,
+    IndexedPage,
+    IndexedPurchase,
+    IndexedPurchaseStats,
+    IndexedUser,
+    IndexedWithdrawal,
+    IndexerCheckpoint,
+    LotteryListQuery
+} from '../../frontend/src/lib/indexer';
+import type { MeltyFiEvent } from '../../frontend/src/lib/meltyfi-events';
+import type { EventId } from '@mysten/sui/client';
+import Database from 'better-sqlite3';
+import fs from 'fs';
+import path from 'path';
+
+/**
+ * SQLite storage for indexed events.
+ * Each batch of events is written in the same transaction as the cursor that
+ * follows it, so after a crash the indexer resumes exactly where the last
+ * committed batch ended. u64 amounts are stored as decimal TEXT to stay exact.
+ */
+
+export type IndexerEvent =
+    | MeltyFiEvent
+    | { type: 'ChocolateMinted'; recipient: string; amount: string; minter: string };
+
+export interface StoredEvent {
+    id: EventId;
+    timestamp: number;
+    event: IndexerEvent;
+}
+
+export interface IndexerStore {
+    getCheckpoint(stream: string): EventId | null;
+    getCheckpoints(): Record<string, IndexerCheckpoint>;
+    // lotteryObjectIds maps the lottery_id of every LotteryCreated event in the batch to its object ID
+    applyBatch(stream: string, events: StoredEvent[], lotteryObjectIds: Map<string, string>, cursor: EventId): void;
+    listLotteries(query: Required<Pick<LotteryListQuery, 'limit' | 'offset'>> & LotteryListQuery): IndexedPage<IndexedLottery>;
+    getLottery(id: string): IndexedLottery | null;
+    getLotteryPurchases(lotteryId: string): IndexedPurchase[];
+    getLotteryWithdrawals(lotteryId: string): IndexedWithdrawal[];
+    getUser(address: string): IndexedUser;
+    getPurchaseStats(): IndexedPurchaseStats;
+    close(): void;
+}
+
+// Appended to, never edited: user_version records how many have been applied
+const MIGRATIONS = [
+    `
+    CREATE TABLE checkpoints (
+        stream TEXT PRIMARY KEY,
+        tx_digest TEXT NOT NULL,
+        event_seq TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+    );
+
+    CREATE TABLE lotteries (
+        lottery_id INTEGER PRIMARY KEY,
+        object_id TEXT NOT NULL UNIQUE,
+        owner TEXT NOT NULL,
+        nft_type TEXT NOT NULL,
+        expiration_date INTEGER NOT NULL,
+        wonka_price TEXT NOT NULL,
+        max_supply TEXT NOT NULL,
+        sold_count TEXT NOT NULL DEFAULT '0',
+        total_raised TEXT NOT NULL DEFAULT '0',
+        state INTEGER NOT NULL DEFAULT 0,
+        winner TEXT,
+        winning_ticket TEXT,
+        nft_claimed INTEGER NOT NULL DEFAULT 0,
+        created_at INTEGER NOT NULL,
+        resolved_at INTEGER
+    );
+    CREATE INDEX lotteries_owner ON lotteries (owner);
+    CREATE INDEX lotteries_state ON lotteries (state);
+    CREATE INDEX lotteries_winner ON lotteries (winner);
+
+    CREATE TABLE purchases (
+        tx_digest TEXT NOT NULL,
+        event_seq TEXT NOT NULL,
+        lottery_id INTEGER NOT NULL,
+        buyer TEXT NOT NULL,
+        quantity TEXT NOT NULL,
+        total_cost TEXT NOT NULL,
+        total_sold TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        PRIMARY KEY (tx_digest, event_seq)
+    );
+    CREATE INDEX purchases_lottery ON purchases (lottery_id);
+    CREATE INDEX purchases_buyer ON purchases (buyer);
+
+    CREATE TABLE resolutions (
+        tx_digest TEXT NOT NULL,
+        event_seq TEXT NOT NULL,
+        lottery_id INTEGER NOT NULL,
+        winner TEXT,
+        winning_ticket TEXT NOT NULL,
+        total_raised TEXT NOT NULL,
+        state INTEGER NOT NULL,
+        timestamp INTEGER NOT NULL,
+        PRIMARY KEY (tx_digest, event_seq)
+    );
+    CREATE INDEX resolutions_lottery ON resolutions (lottery_id);
+
+    CREATE TABLE withdrawals (
+        tx_digest TEXT NOT NULL,
+        event_seq TEXT NOT NULL,
+        lottery_id INTEGER NOT NULL,
+        recipient TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        withdrawal_type TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        PRIMARY KEY (tx_digest, event_seq)
+    );
+    CREATE INDEX withdrawals_lottery ON withdrawals (lottery_id);
+    CREATE INDEX withdrawals_recipient ON withdrawals (recipient);
+
+    CREATE TABLE mints (
+        tx_digest TEXT NOT NULL,
+        event_seq TEXT NOT NULL,
+        recipient TEXT NOT NULL,
+        amount TEXT NOT NULL,
+        minter TEXT NOT NULL,
+        timestamp INTEGER NOT NULL,
+        PRIMARY KEY (tx_digest, event_seq)
+    );
+    CREATE INDEX mints_recipient ON mints (recipient);
+    `,
+];
+
+// Lottery columns plus participants ordered by their latest purchase, as buy_wonka_bars
+// re-inserts a returning buyer at the end of the on-chain VecMap
+const LOTTERY_SELECT = `
+    SELECT l.*, (
+        SELECT json_group_array(buyer) FROM (
+            SELECT buyer FROM purchases p WHERE p.lottery_id = l.lottery_id
+            GROUP BY buyer ORDER BY MAX(p.rowid)
+        )
+    ) AS participants
+    FROM lotteries l`;
+
+function migrate(db: Database.Database) {
+    const version = db.pragma('user_version', { simple: true }) as number;
+    MIGRATIONS.slice(version).forEach((sql, index) => {
+        db.transaction(() => {
+            db.exec(sql);
+            db.pragma(`user_version = ${version + index + 1}`);
+        })();
+    });
+}
+
+const addAmounts = (a: string, b: string) => (BigInt(a) + BigInt(b)).toString();
+
+function toIndexedLottery(row: any): IndexedLottery {
+    return {
+        objectId: row.object_id,
+        lotteryId: String(row.lottery_id),
+        owner: row.owner,
+        nftType: row.nft_type,
+        state: row.state,
+        createdAt: row.created_at,
+        expirationDate: row.expiration_date,
+        wonkaPrice: row.wonka_price,
+        maxSupply: row.max_supply,
+        soldCount: row.sold_count,
+        totalRaised: row.total_raised,
+        winner: row.winner,
+        winningTicket: row.winning_ticket,
+        nftClaimed: row.nft_claimed === 1,
+        resolvedAt: row.resolved_at,
+        participantAddresses: JSON.parse(row.participants ?? '[]'),
+    };
+}
+
+const toPurchase = (row: any): IndexedPurchase => ({
+    txDigest: row.tx_digest,
+    eventSeq: row.event_seq,
+    timestamp: row.timestamp,
+    lotteryId: String(row.lottery_id),
+    buyer: row.buyer,
+    quantity: row.quantity,
+    totalCost: row.total_cost,
+    totalSold: row.total_sold,
+});
+
+const toWithdrawal = (row: any): IndexedWithdrawal => ({
+    txDigest: row.tx_digest,
+    eventSeq: row.event_seq,
+    timestamp: row.timestamp,
+    lotteryId: String(row.lottery_id),
+    recipient: row.recipient,
+    amount: row.amount,
+    withdrawalType: row.withdrawal_type,
+});
+
+const toMint = (row: any): IndexedMint => ({
+    txDigest: row.tx_digest,
+    eventSeq: row.event_seq,
+    timestamp: row.timestamp,
+    recipient: row.recipient,
+    amount: row.amount,
+    minter: row.minter,
+});
+
+export function openDatabase(file: string): IndexerStore {
+    fs.mkdirSync(path.dirname(file), { recursive: true });
+    const db = new Database(file);
+    // WAL lets the API read while a batch is being written
+    db.pragma('journal_mode = WAL');
+    migrate(db);
+
+    const statements = {
+        getCheckpoint: db.prepare('SELECT tx_digest, event_seq, updated_at FROM checkpoints WHERE stream = ?'),
+        getCheckpoints: db.prepare('SELECT stream, tx_digest, event_seq, updated_at FROM checkpoints'),
+        saveCheckpoint: db.prepare(`
+            INSERT INTO checkpoints (stream, tx_digest, event_seq, updated_at) VALUES (?, ?, ?, ?)
+            ON CONFLICT (stream) DO UPDATE SET
+                tx_digest = excluded.tx_digest, event_seq = excluded.event_seq, updated_at = excluded.updated_at`),
+        insertLottery: db.prepare(`
+            INSERT OR IGNORE INTO lotteries
+                (lottery_id, object_id, owner, nft_type, expiration_date, wonka_price, max_supply, created_at)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`),
+        getLotteryTotals: db.prepare('SELECT total_raised FROM lotteries WHERE lottery_id = ?'),
+        updateLotterySales: db.prepare('UPDATE lotteries SET sold_count = ?, total_raised = ? WHERE lottery_id = ?'),
+        resolveLottery: db.prepare(`
+            UPDATE lotteries SET state = ?, winner = ?, winning_ticket = ?, total_raised = ?, resolved_at = ?
+            WHERE lottery_id = ?`),
+        markNftClaimed: db.prepare('UPDATE lotteries SET nft_claimed = 1 WHERE lottery_id = ?'),
+        insertPurchase: db.prepare(`
+            INSERT OR IGNORE INTO purchases
+                (tx_digest, event_seq, lottery_id, buyer, quantity, total_cost, total_sold, timestamp)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`),
+        insertResolution: db.prepare(`
+            INSERT OR IGNORE INTO resolutions
+                (tx_digest, event_seq, lottery_id, winner, winning_ticket, total_raised, state, timestamp)
+            VALUES (?, ?, ?, ?, ?, ?, ?, ?)`),
+        insertWithdrawal: db.prepare(`
+            INSERT OR IGNORE INTO withdrawals
+                (tx_digest, event_seq, lottery_id, recipient, amount, withdrawal_type, timestamp)
+            VALUES (?, ?, ?, ?, ?, ?, ?)`),
+        insertMint: db.prepare(`
+            INSERT OR IGNORE INTO mints (tx_digest, event_seq, recipient, amount, minter, timestamp)
+            VALUES (?, ?, ?, ?, ?, ?)`),
+        getLotteryById: db.prepare(`${LOTTERY_SELECT} WHERE l.lottery_id = ?`),
+        getLotteryByObjectId: db.prepare(`${LOTTERY_SELECT} WHERE l.object_id = ?`),
+        getLotteriesByOwner: db.prepare(`${LOTTERY_SELECT} WHERE l.owner = ? ORDER BY l.lottery_id DESC`),
+        getLotteriesByWinner: db.prepare(`${LOTTERY_SELECT} WHERE l.winner = ? ORDER BY l.lottery_id DESC`),
+        getLotteryPurchases: db.prepare('SELECT * FROM purchases WHERE lottery_id = ? ORDER BY timestamp DESC, rowid DESC'),
+        getLotteryWithdrawals: db.prepare('SELECT * FROM withdrawals WHERE lottery_id = ? ORDER BY timestamp DESC, rowid DESC'),
+        getUserPurchases: db.prepare('SELECT * FROM purchases WHERE buyer = ? ORDER BY timestamp DESC, rowid DESC'),
+        getUserWithdrawals: db.prepare('SELECT * FROM withdrawals WHERE recipient = ? ORDER BY timestamp DESC, rowid DESC'),
+        getUserMints: db.prepare('SELECT * FROM mints WHERE recipient = ? ORDER BY timestamp DESC, rowid DESC'),
+        getPurchaseAmounts: db.prepare('SELECT quantity, total_cost FROM purchases'),
+        countBuyers: db.prepare('SELECT COUNT(DISTINCT buyer) AS buyers FROM purchases'),
+    };
+
+    // Primary keys make replaying an event a no-op, so counters only move when the row is new
+    const applyEvent = ({ id, timestamp, event }: StoredEvent, lotteryObjectIds: Map<string, string>) => {
+        const key = [id.txDigest, id.eventSeq] as const;
+
+        switch (event.type) {
+            case 'LotteryCreated': {
+                const objectId = lotteryObjectIds.get(event.lotteryId);
+                if (!objectId) throw new Error(`No object ID resolved for lottery ${event.lotteryId}`);
+                statements.insertLottery.run(
+                    event.lotteryId, objectId, event.owner, event.nftType,
+                    event.expirationDate, event.wonkaPrice, event.maxSupply, timestamp
+                );
+                break;
+            }
+            case 'WonkaBarsPurchased': {
+                const inserted = statements.insertPurchase.run(
+                    ...key, event.lotteryId, event.buyer, event.quantity, event.totalCost, event.totalSold, timestamp
+                );
+                const lottery = statements.getLotteryTotals.get(event.lotteryId) as { total_raised: string } | undefined;
+                if (inserted.changes > 0 && lottery) {
+                    statements.updateLotterySales.run(event.totalSold, addAmounts(lottery.total_raised, event.totalCost), event.lotteryId);
+                }
+                break;
+            }
+            case 'LotteryResolved': {
+                const inserted = statements.insertResolution.run(
+                    ...key, event.lotteryId, event.winner ?? null, event.winningTicket, event.totalRaised, event.state, timestamp
+                );
+                if (inserted.changes > 0) {
+                    statements.resolveLottery.run(
+                        event.state, event.winner ?? null, event.winningTicket, event.totalRaised, timestamp, event.lotteryId
+                    );
+                }
+                break;
+            }
+            case 'FundsWithdrawn':
+                statements.insertWithdrawal.run(
+                    ...key, event.lotteryId, event.recipient, event.amount, event.withdrawalType, timestamp
+                );
+                if (event.withdrawalType === 'nft_claim') statements.markNftClaimed.run(event.lotteryId);
+                break;
+            case 'ChocolateMinted':
+                statements.insertMint.run(...key, event.recipient, event.amount, event.minter, timestamp);
+                break;
+            case 'ProtocolUpdated':
+                // Admin actions are not part of the indexed state
+                break;
+        }
+    };
+
+    const applyBatch = db.transaction((
+        stream: string,
+        events: StoredEvent[],
+        lotteryObjectIds: Map<string, string>,
+        cursor: EventId
+    ) => {
+        events.forEach((event) => applyEvent(event, lotteryObjectIds));
+        statements.saveCheckpoint.run(stream, cursor.txDigest, cursor.eventSeq, Date.now());
+    });
+
+    return {
+        getCheckpoint(stream) {
+            const row = statements.getCheckpoint.get(stream) as any;
+            return row ? { txDigest: row.tx_digest, eventSeq: row.event_seq } : null;
+        },
+
+        getCheckpoints() {
+            return Object.fromEntries((statements.getCheckpoints.all() as any[]).map((row) => [
+                row.stream,
+                { txDigest: row.tx_digest, eventSeq: row.event_seq, updatedAt: row.updated_at },
+            ]));
+        },
+
+        applyBatch(stream, events, lotteryObjectIds, cursor) {
+            applyBatch(stream, events, lotteryObjectIds, cursor);
+        },
+
+        listLotteries({ state, owner, before, after, ids, lotteryIds, limit, offset }) {
+            const conditions: string[] = [];
+            const params: (string | number)[] = [];
+            if (state !== undefined) {
+                conditions.push('l.state = ?');
+                params.push(state);
+            }
+            if (owner) {
+                conditions.push('l.owner = ?');
+                params.push(owner);
+            }
+            if (before !== undefined) {
+                conditions.push('l.lottery_id < ?');
+                params.push(Number(before));
+            }
+            if (after !== undefined) {
+                conditions.push('l.lottery_id > ?');
+                params.push(Number(after));
+            }
+            if (ids) {
+                conditions.push(`l.object_id IN (${ids.map(() => '?').join(', ')})`);
+                params.push(...ids);
+            }
+            if (lotteryIds) {
+                conditions.push(`l.lottery_id IN (${lotteryIds.map(() => '?').join(', ')})`);
+                params.push(...lotteryIds.map(Number));
+            }
+            const where = conditions.length > 0 ? ` WHERE ${conditions.join(' AND ')}` : '';
+
+            const { total } = db.prepare(`SELECT COUNT(*) AS total FROM lotteries l${where}`).get(...params) as { total: number };
+            const rows = db.prepare(`${LOTTERY_SELECT}${where} ORDER BY l.lottery_id DESC LIMIT ? OFFSET ?`)
+                .all(...params, limit, offset);
+
+            return { data: rows.map(toIndexedLottery), total, limit, offset };
+        },
+
+        getLottery(id) {
+            const row = id.startsWith('0x')
+                ? statements.getLotteryByObjectId.get(id)
+                : /^\d+$/.test(id) ? statements.getLotteryById.get(id) : undefined;
+            return row ? toIndexedLottery(row) : null;
+        },
+
+        getLotteryPurchases(lotteryId) {
+            return statements.getLotteryPurchases.all(lotteryId).map(toPurchase);
+        },
+
+        getLotteryWithdrawals(lotteryId) {
+            return statements.getLotteryWithdrawals.all(lotteryId).map(toWithdrawal);
+        },
+
+        getUser(address) {
+            const purchases = statements.getUserPurchases.all(address).map(toPurchase);
+            const mints = statements.getUserMints.all(address).map(toMint);
+
+            return {
+                address,
+                lotteriesCreated: statements.getLotteriesByOwner.all(address).map(toIndexedLottery),
+                lotteriesWon: statements.getLotteriesByWinner.all(address).map(toIndexedLottery),
+                purchases,
+                withdrawals: statements.getUserWithdrawals.all(address).map(toWithdrawal),
+                mints,
+                wonkaBarsBought: purchases.reduce((sum, purchase) => addAmounts(sum, purchase.quantity), '0'),
+                totalSpent: purchases.reduce((sum, purchase) => addAmounts(sum, purchase.totalCost), '0'),
+                chocoChipsMinted: mints.reduce((sum, mint) => addAmounts(sum, mint.amount), '0'),
+            };
+        },
+
+        // Amounts are u64 strings, so they are added as BigInts rather than with SUM
+        getPurchaseStats() {
+            let volume = '0';
+            let wonkaBarsSold = '0';
+            for (const row of statements.getPurchaseAmounts.iterate() as Iterable<{ quantity: string; total_cost: string }>) {
+                volume = addAmounts(volume, row.total_cost);
+                wonkaBarsSold = addAmounts(wonkaBarsSold, row.quantity);
+            }
+            const { buyers } = statements.countBuyers.get() as { buyers: number };
+            return { volume, wonkaBarsSold, uniqueBuyers: buyers };
+        },
+
+        close() {
+            db.close();
+        },
+    };
+}
@@ -0,0 +1,105 @@
+import { validateDeploymentInfo } from '../../frontend/src/lib/deployment';
+import { createLogger } from '../../frontend/src/lib/logger';
+import { createApiServer } from './api';
+import { ConfigError, loadConfig, type IndexerConfig } from './config';
+import { openDatabase, type IndexerStore } from './db';
+import { syncAll, type IngestContext } from './ingest';
+import { SuiClient } from '@mysten/sui/client';
+import { readFileSync } from 'fs';
+
+/**
+ * MeltyFi indexer: keeps a SQLite copy of the protocol's events up to date and
+ * serves it over HTTP, so the app can list lotteries and user history with a
+ * single request instead of walking events on a fullnode.
+ */
+
+const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function loadPackageId(config: IndexerConfig): string {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(readFileSync(config.deploymentFile, 'utf8'));
+    } catch (error) {
+        throw new ConfigError(`Cannot read deployment file ${config.deploymentFile}: ${(error as Error).message}`);
+    }
+
+    const validation = validateDeploymentInfo(raw, config.network);
+    if (!validation.valid) {
+        const issues = validation.issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+        throw new ConfigError(`Invalid deployment file ${config.deploymentFile}: ${issues}`);
+    }
+    return validation.deployment.packageId;
+}
+
+async function main() {
+    let config: IndexerConfig;
+    let packageId: string;
+    try {
+        config = loadConfig();
+        packageId = loadPackageId(config);
+    } catch (error) {
+        createLogger().error('Invalid configuration', { error });
+        process.exitCode = 1;
+        return;
+    }
+
+    const logger = createLogger(config.logLevel, { network: config.network });
+
+    let store: IndexerStore;
+    try {
+        store = openDatabase(config.databaseFile);
+    } catch (error) {
+        logger.error('Cannot open database', { databaseFile: config.databaseFile, error });
+        process.exitCode = 1;
+        return;
+    }
+
+    let stopping = false;
+    const ctx: IngestContext = {
+        suiClient: new SuiClient({ url: config.rpcUrl }),
+        store,
+        packageId,
+        logger,
+        isStopping: () => stopping,
+    };
+
+    const server = createApiServer({ store, network: config.network, packageId, corsOrigin: config.corsOrigin, logger });
+    server.listen(config.port, config.host, () => {
+        logger.info('Indexer started', {
+            rpcUrl: config.rpcUrl,
+            packageId,
+            databaseFile: config.databaseFile,
+            api: `http://${config.host}:${config.port}`,
+            checkpoints: store.getCheckpoints(),
+        });
+    });
+
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+        process.on(signal, () => {
+            logger.info('Shutting down after the current page', { signal });
+            stopping = true;
+        });
+    }
+
+    while (!stopping) {
+        try {
+            const indexed = await syncAll(ctx);
+            if (indexed > 0) logger.info('Caught up', { indexed, checkpoints: store.getCheckpoints() });
+        } catch (error) {
+            // The failed page was not committed and is read again on the next pass
+            logger.error('Sync failed', { error });
+        }
+
+        // Sleep in short steps so a shutdown signal is honoured promptly
+        const wakeAt = Date.now() + config.pollIntervalMs;
+        while (!stopping && Date.now() < wakeAt) {
+            await sleep(Math.min(1000, wakeAt - Date.now()));
+        }
+    }
+
+    server.close();
+    store.close();
+    logger.info('Indexer stopped');
+}
+
+main();
@@ -0,0 +1,112 @@
+import { getMeltyFiTypes } from '../../frontend/src/constants/contracts';
+import { chunk } from '../../frontend/src/lib/arrays';
+import type { Logger } from '../../frontend/src/lib/logger';
+import { parseMeltyFiEvent } from '../../frontend/src/lib/meltyfi-events';
+import type { IndexerEvent, IndexerStore, StoredEvent } from './db';
+import type { SuiClient, SuiEvent, SuiObjectChange } from '@mysten/sui/client';
+import { normalizeStructTag } from '@mysten/sui/utils';
+
+/**
+ * Tails the package's events into the store, one stream per Move module.
+ * Streams are read oldest first from their checkpoint; every page is committed
+ * together with the cursor after it, so a restart never skips or repeats work.
+ */
+
+export interface IngestContext {
+    suiClient: SuiClient;
+    store: IndexerStore;
+    packageId: string;
+    logger: Logger;
+    // Checked between pages so a long backfill can be interrupted
+    isStopping?: () => boolean;
+}
+
+// Modules whose events are indexed; each keeps its own checkpoint
+export const EVENT_STREAMS = ['core', 'choco_chip'] as const;
+
+export type EventStream = (typeof EVENT_STREAMS)[number];
+
+const EVENT_PAGE_SIZE = 50;
+
+// multiGetTransactionBlocks and multiGetObjects reject more IDs than this per call
+const MULTI_GET_LIMIT = 50;
+
+function parseIndexerEvent(event: SuiEvent): IndexerEvent | null {
+    if (event.type.endsWith('::choco_chip::ChocolateMinted')) {
+        const json = event.parsedJson as any;
+        return { type: 'ChocolateMinted', recipient: json.recipient, amount: String(json.amount), minter: json.minter };
+    }
+    return parseMeltyFiEvent(event);
+}
+
+// LotteryCreated does not carry the shared object's ID, so read it from the creating transactions
+async function resolveLotteryObjectIds(ctx: IngestContext, events: StoredEvent[]): Promise<Map<string, string>> {
+    const digests = [...new Set(events
+        .filter((stored) => stored.event.type === 'LotteryCreated')
+        .map((stored) => stored.id.txDigest))];
+    if (digests.length === 0) return new Map();
+
+    const lotteryType = normalizeStructTag(getMeltyFiTypes(ctx.packageId).lottery);
+    const transactions = (await Promise.all(chunk(digests, MULTI_GET_LIMIT).map((batch) =>
+        ctx.suiClient.multiGetTransactionBlocks({ digests: batch, options: { showObjectChanges: true } })
+    ))).flat();
+
+    const createdIds = transactions.flatMap((tx) => (tx.objectChanges ?? [])
+        .filter((change): change is Extract<SuiObjectChange, { type: 'created' }> =>
+            change.type === 'created' && normalizeStructTag(change.objectType) === lotteryType
+        )
+        .map((change) => change.objectId));
+
+    // A transaction may create several lotteries, so match them by the lottery_id field
+    const objects = (await Promise.all(chunk(createdIds, MULTI_GET_LIMIT).map((batch) =>
+        ctx.suiClient.multiGetObjects({ ids: batch, options: { showContent: true } })
+    ))).flat();
+
+    return new Map(objects.flatMap((obj) => {
+        const content = obj.data?.content;
+        if (content?.dataType !== 'moveObject') return [];
+        return [[String((content.fields as any).lottery_id), obj.data!.objectId] as [string, string]];
+    }));
+}
+
+// Index every event after the stream's checkpoint, returning how many were read
+export async function syncStream(ctx: IngestContext, stream: EventStream): Promise<number> {
+    const logger = ctx.logger.child({ stream });
+    let cursor = ctx.store.getCheckpoint(stream);
+    let indexed = 0;
+    let hasNextPage = true;
+
+    while (hasNextPage && !ctx.isStopping?.()) {
+        const page = await ctx.suiClient.queryEvents({
+            query: { MoveEventModule: { package: ctx.packageId, module: stream } },
+            cursor,
+            limit: EVENT_PAGE_SIZE,
+            order: 'ascending',
+        });
+        const last = page.data[page.data.length - 1];
+        if (!last) break;
+
+        const events = page.data.flatMap((event): StoredEvent[] => {
+            const parsed = parseIndexerEvent(event);
+            return parsed ? [{ id: event.id, timestamp: Number(event.timestampMs ?? 0), event: parsed }] : [];
+        });
+        const lotteryObjectIds = await resolveLotteryObjectIds(ctx, events);
+
+        cursor = last.id;
+        ctx.store.applyBatch(stream, events, lotteryObjectIds, cursor);
+        indexed += page.data.length;
+        hasNextPage = page.hasNextPage;
+
+        logger.debug('Indexed event page', { events: page.data.length, txDigest: cursor.txDigest, eventSeq: cursor.eventSeq });
+    }
+
+    return indexed;
+}
+
+export async function syncAll(ctx: IngestContext): Promise<number> {
+    let indexed = 0;
+    for (const stream of EVENT_STREAMS) {
+        indexed += await syncStream(ctx, stream);
+    }
+    return indexed;
+}
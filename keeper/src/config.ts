@@ -0,0 +1,77 @@
+import { NETWORK_CONFIG, isSupportedNetwork, type MeltyFiNetwork } from '../../frontend/src/constants/contracts';
+import { isLogLevel, type LogLevel } from '../../frontend/src/lib/logger';
+import path from 'path';
+
+/**
+ * Keeper settings, read from KEEPER_* environment variables and overridable
+ * with command line flags (--dry-run, --once, --network=<name>).
+ */
+
+export interface KeeperConfig {
+    network: MeltyFiNetwork;
+    rpcUrl: string;
+    deploymentFile: string;
+    privateKey?: string;
+    dryRun: boolean;
+    once: boolean;
+    pollIntervalMs: number;
+    minTxIntervalMs: number;
+    maxResolutionsPerScan: number;
+    maxAttempts: number;
+    logLevel: LogLevel;
+}
+
+export class ConfigError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'ConfigError';
+    }
+}
+
+const REPO_ROOT = path.resolve(__dirname, '..', '..', '..', '..');
+
+function readFlag(argv: string[], name: string): string | boolean | undefined {
+    for (const arg of argv) {
+        if (arg === `--${name}`) return true;
+        if (arg.startsWith(`--${name}=`)) return arg.slice(name.length + 3);
+    }
+    return undefined;
+}
+
+function readPositiveNumber(env: NodeJS.ProcessEnv, name: string, fallback: number): number {
+    const raw = env[name];
+    if (raw === undefined || raw === '') return fallback;
+
+    const value = Number(raw);
+    if (!Number.isFinite(value) || value <= 0) throw new ConfigError(`${name} must be a positive number, got "${raw}"`);
+    return value;
+}
+
+export function loadConfig(argv: string[] = process.argv.slice(2), env: NodeJS.ProcessEnv = process.env): KeeperConfig {
+    const networkFlag = readFlag(argv, 'network');
+    const network = typeof networkFlag === 'string' ? networkFlag : env.KEEPER_NETWORK || 'testnet';
+    if (!isSupportedNetwork(network)) throw new ConfigError(`Unsupported network "${network}"`);
+
+    const logLevel = env.KEEPER_LOG_LEVEL || 'info';
+    if (!isLogLevel(logLevel)) throw new ConfigError(`Unsupported log level "${logLevel}"`);
+
+    const dryRun = readFlag(argv, 'dry-run') === true || env.KEEPER_DRY_RUN === 'true';
+    const privateKey = env.KEEPER_PRIVATE_KEY || undefined;
+    if (!dryRun && !privateKey) throw new ConfigError('KEEPER_PRIVATE_KEY is required unless running with --dry-run');
+
+    return {
+        network,
+        rpcUrl: env.KEEPER_RPC_URL || NETWORK_CONFIG[network].rpcUrl,
+        deploymentFile: env.KEEPER_DEPLOYMENT_FILE
+            ? path.resolve(env.KEEPER_DEPLOYMENT_FILE)
+            : path.join(REPO_ROOT, 'frontend', 'public', 'deployments', `${network}.json`),
+        privateKey,
+        dryRun,
+        once: readFlag(argv, 'once') === true,
+        pollIntervalMs: readPositiveNumber(env, 'KEEPER_POLL_INTERVAL_SECONDS', 60) * 1000,
+        minTxIntervalMs: readPositiveNumber(env, 'KEEPER_MIN_TX_INTERVAL_SECONDS', 2) * 1000,
+        maxResolutionsPerScan: Math.floor(readPositiveNumber(env, 'KEEPER_MAX_RESOLUTIONS_PER_SCAN', 10)),
+        maxAttempts: Math.floor(readPositiveNumber(env, 'KEEPER_MAX_ATTEMPTS', 3)),
+        logLevel,
+    };
+}
@@ -0,0 +1,201 @@
+import { toMeltyFiContracts, validateDeploymentInfo } from '../../frontend/src/lib/deployment';
+import { createLogger } from '../../frontend/src/lib/logger';
+import type { MeltyFiTxConfig } from '../../frontend/src/lib/meltyfi-tx';
+import { ConfigError, loadConfig, type KeeperConfig } from './config';
+import { resolveWithRetry, sleep, type ResolverContext } from './resolver';
+import { fetchChainTime, fetchLotterySnapshots, fetchProtocolSnapshot, getResolutionReason } from './scanner';
+import { SuiClient } from '@mysten/sui/client';
+import { decodeSuiPrivateKey, type Keypair } from '@mysten/sui/cryptography';
+import { Ed25519Keypair } from '@mysten/sui/keypairs/ed25519';
+import { Secp256k1Keypair } from '@mysten/sui/keypairs/secp256k1';
+import { Secp256r1Keypair } from '@mysten/sui/keypairs/secp256r1';
+import { readFileSync } from 'fs';
+
+/**
+ * MeltyFi keeper: resolve_lottery is permissionless, so this process calls it
+ * for every active lottery that has expired or sold out, letting winners claim
+ * without waiting for someone to press the button in the UI.
+ */
+
+function loadKeypair(privateKey: string): Keypair {
+    const { schema, secretKey } = decodeSuiPrivateKey(privateKey);
+    switch (schema) {
+        case 'ED25519':
+            return Ed25519Keypair.fromSecretKey(secretKey);
+        case 'Secp256k1':
+            return Secp256k1Keypair.fromSecretKey(secretKey);
+        case 'Secp256r1':
+            return Secp256r1Keypair.fromSecretKey(secretKey);
+        default:
+            throw new ConfigError(`Unsupported key scheme ${schema}`);
+    }
+}
+
+function loadTxConfig(config: KeeperConfig): MeltyFiTxConfig {
+    let raw: unknown;
+    try {
+        raw = JSON.parse(readFileSync(config.deploymentFile, 'utf8'));
+    } catch (error) {
+        throw new ConfigError(`Cannot read deployment file ${config.deploymentFile}: ${(error as Error).message}`);
+    }
+
+    const validation = validateDeploymentInfo(raw, config.network);
+    if (!validation.valid) {
+        const issues = validation.issues.map((issue) => `${issue.path}: ${issue.message}`).join('; ');
+        throw new ConfigError(`Invalid deployment file ${config.deploymentFile}: ${issues}`);
+    }
+
+    const contracts = toMeltyFiContracts(validation.deployment);
+    return { packageId: contracts.packageId, protocolObjectId: contracts.protocolObjectId };
+}
+
+// Spaces out submissions so a backlog of due lotteries does not flood the node
+function createRateLimiter(minIntervalMs: number): () => Promise<void> {
+    let lastRun = 0;
+    return async () => {
+        const wait = lastRun + minIntervalMs - Date.now();
+        if (wait > 0) await sleep(wait);
+        lastRun = Date.now();
+    };
+}
+
+async function runScan(
+    config: KeeperConfig,
+    ctx: ResolverContext,
+    waitForSlot: () => Promise<void>,
+    isStopping: () => boolean
+): Promise<void> {
+    const { suiClient, txConfig, logger } = ctx;
+
+    const protocol = await fetchProtocolSnapshot(suiClient, txConfig.protocolObjectId);
+    if (protocol.paused) {
+        logger.warn('Protocol is paused, resolve_lottery would abort; skipping scan');
+        return;
+    }
+
+    const [chainTime, lotteries] = await Promise.all([
+        fetchChainTime(suiClient),
+        fetchLotterySnapshots(suiClient, protocol.activeLotteryObjectIds),
+    ]);
+
+    // Longest-waiting lotteries first
+    const due = lotteries
+        .map((lottery) => ({ lottery, reason: getResolutionReason(lottery, chainTime) }))
+        .filter((entry) => entry.reason !== null)
+        .sort((a, b) => a.lottery.expirationDate - b.lottery.expirationDate);
+
+    logger.info('Scan complete', { active: lotteries.length, due: due.length, chainTime });
+
+    for (const { lottery, reason } of due.slice(0, config.maxResolutionsPerScan)) {
+        if (isStopping()) break;
+        await waitForSlot();
+
+        const fields = { lotteryId: lottery.lotteryId, lotteryObjectId: lottery.objectId, reason, participants: lottery.participants };
+        const outcome = await resolveWithRetry(ctx, lottery);
+
+        switch (outcome.status) {
+            case 'resolved':
+                logger.info('Lottery resolved', { ...fields, digest: outcome.digest, winner: outcome.winner ?? null });
+                break;
+            case 'simulated':
+                if (outcome.error) logger.warn('Dry run: resolution would fail', { ...fields, error: outcome.error });
+                else logger.info('Dry run: lottery would be resolved', { ...fields, winner: outcome.winner ?? null });
+                break;
+            case 'already_resolved':
+                logger.info('Lottery already resolved, skipping', fields);
+                break;
+            case 'paused':
+                logger.warn('Protocol was paused mid-scan, stopping', fields);
+                return;
+            case 'failed':
+                logger.error('Failed to resolve lottery', { ...fields, error: outcome.error });
+                break;
+        }
+    }
+
+    if (due.length > config.maxResolutionsPerScan) {
+        logger.info('Resolution limit reached, remaining lotteries wait for the next scan', {
+            deferred: due.length - config.maxResolutionsPerScan,
+        });
+    }
+}
+
+async function main() {
+    let config: KeeperConfig;
+    try {
+        config = loadConfig();
+    } catch (error) {
+        createLogger().error('Invalid configuration', { error });
+        process.exitCode = 1;
+        return;
+    }
+
+    const logger = createLogger(config.logLevel, { network: config.network });
+
+    let ctx: ResolverContext;
+    try {
+        const signer = config.privateKey ? loadKeypair(config.privateKey) : undefined;
+        ctx = {
+            suiClient: new SuiClient({ url: config.rpcUrl }),
+            txConfig: loadTxConfig(config),
+            signer,
+            dryRun: config.dryRun,
+            maxAttempts: config.maxAttempts,
+            logger,
+        };
+    } catch (error) {
+        logger.error('Invalid configuration', { error });
+        process.exitCode = 1;
+        return;
+    }
+
+    let stopping = false;
+    for (const signal of ['SIGINT', 'SIGTERM'] as const) {
+        process.on(signal, () => {
+            logger.info('Shutting down after the current step', { signal });
+            stopping = true;
+        });
+    }
+
+    const keeperAddress = ctx.signer?.toSuiAddress();
+    logger.info('Keeper started', {
+        rpcUrl: config.rpcUrl,
+        packageId: ctx.txConfig.packageId,
+        protocolObjectId: ctx.txConfig.protocolObjectId,
+        keeperAddress: keeperAddress ?? null,
+        dryRun: config.dryRun,
+        pollIntervalMs: config.pollIntervalMs,
+    });
+
+    if (keeperAddress && !config.dryRun) {
+        try {
+            const balance = await ctx.suiClient.getBalance({ owner: keeperAddress });
+            logger.info('Keeper gas balance', { mist: balance.totalBalance });
+        } catch (error) {
+            logger.warn('Could not read keeper balance', { error });
+        }
+    }
+
+    const waitForSlot = createRateLimiter(config.minTxIntervalMs);
+
+    while (!stopping) {
+        try {
+            await runScan(config, ctx, waitForSlot, () => stopping);
+        } catch (error) {
+            logger.error('Scan failed', { error });
+            if (config.once) process.exitCode = 1;
+        }
+
+        if (config.once) break;
+
+        // Sleep in short steps so a shutdown signal is honoured promptly
+        const wakeAt = Date.now() + config.pollIntervalMs;
+        while (!stopping && Date.now() < wakeAt) {
+            await sleep(Math.min(1000, wakeAt - Date.now()));
+        }
+    }
+
+    logger.info('Keeper stopped');
+}
+
+main();
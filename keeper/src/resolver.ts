@@ -0,0 +1,138 @@
+import { toMeltyFiError } from '../../frontend/src/lib/errors';
+import type { Logger } from '../../frontend/src/lib/logger';
+import { buildResolveLotteryTx, type MeltyFiTxConfig } from '../../frontend/src/lib/meltyfi-tx';
+import { LOTTERY_ACTIVE, fetchLotterySnapshots, type LotterySnapshot } from './scanner';
+import type { SuiClient, SuiEvent, SuiTransactionBlockResponse } from '@mysten/sui/client';
+import type { Keypair } from '@mysten/sui/cryptography';
+import { TransactionDataBuilder } from '@mysten/sui/transactions';
+import { normalizeSuiAddress, toBase64 } from '@mysten/sui/utils';
+
+/**
+ * Submits resolve_lottery for one lottery.
+ * Every attempt starts by re-reading the lottery, so a lottery resolved by
+ * someone else in the meantime is a no-op. The transaction is signed once and
+ * retries submit the same bytes, after first checking whether they already
+ * landed, so a lost response never leads to a second transaction spending the
+ * same gas coin.
+ */
+
+export type ResolutionOutcome =
+    | { status: 'resolved'; digest: string; winner?: string }
+    | { status: 'simulated'; winner?: string; error?: string }
+    | { status: 'already_resolved' }
+    | { status: 'paused' }
+    | { status: 'failed'; error: string };
+
+export interface ResolverContext {
+    suiClient: SuiClient;
+    txConfig: MeltyFiTxConfig;
+    // Optional in dry-run mode, where it only serves as the simulated sender
+    signer?: Keypair;
+    dryRun: boolean;
+    maxAttempts: number;
+    logger: Logger;
+}
+
+const RETRY_BASE_DELAY_MS = 2000;
+
+const RESPONSE_OPTIONS = { showEffects: true, showEvents: true };
+
+interface SignedTransaction {
+    bytes: string;
+    signature: string;
+    digest: string;
+}
+
+export const sleep = (ms: number) => new Promise((resolve) => setTimeout(resolve, ms));
+
+function findWinner(events: SuiEvent[] | null | undefined, packageId: string): string | undefined {
+    const resolved = events?.find((event) => event.type === `${packageId}::core::LotteryResolved`);
+    const winner = (resolved?.parsedJson as any)?.winner;
+    return typeof winner === 'string' ? winner : winner?.vec?.[0];
+}
+
+async function isStillActive(suiClient: SuiClient, objectId: string): Promise<boolean> {
+    const [live] = await fetchLotterySnapshots(suiClient, [objectId]);
+    return live?.state === LOTTERY_ACTIVE;
+}
+
+// Run the transaction through devInspect and report what it would do
+async function simulateResolution(ctx: ResolverContext, lottery: LotterySnapshot): Promise<ResolutionOutcome> {
+    const tx = buildResolveLotteryTx(ctx.txConfig, { lotteryId: lottery.objectId });
+    const result = await ctx.suiClient.devInspectTransactionBlock({
+        sender: ctx.signer?.toSuiAddress() ?? normalizeSuiAddress('0x0'),
+        transactionBlock: tx,
+    });
+
+    if (result.effects.status.status !== 'success') {
+        return { status: 'simulated', error: result.effects.status.error ?? result.error ?? 'Simulation failed' };
+    }
+    return { status: 'simulated', winner: findWinner(result.events, ctx.txConfig.packageId) };
+}
+
+async function signResolution(ctx: ResolverContext, signer: Keypair, lottery: LotterySnapshot): Promise<SignedTransaction> {
+    const tx = buildResolveLotteryTx(ctx.txConfig, { lotteryId: lottery.objectId });
+    tx.setSenderIfNotSet(signer.toSuiAddress());
+    const bytes = await tx.build({ client: ctx.suiClient });
+    const { signature } = await signer.signTransaction(bytes);
+    return { bytes: toBase64(bytes), signature, digest: TransactionDataBuilder.getDigestFromBytes(bytes) };
+}
+
+// The executed transaction with this digest, or null if it has not landed
+async function findTransaction(suiClient: SuiClient, digest: string): Promise<SuiTransactionBlockResponse | null> {
+    try {
+        return await suiClient.getTransactionBlock({ digest, options: RESPONSE_OPTIONS });
+    } catch {
+        return null;
+    }
+}
+
+export async function resolveWithRetry(ctx: ResolverContext, lottery: LotterySnapshot): Promise<ResolutionOutcome> {
+    const logger = ctx.logger.child({ lotteryId: lottery.lotteryId, lotteryObjectId: lottery.objectId });
+
+    let signed: SignedTransaction | null = null;
+
+    for (let attempt = 1; attempt <= ctx.maxAttempts; attempt++) {
+        try {
+            // An earlier attempt may have landed even though its response was lost
+            let response = signed ? await findTransaction(ctx.suiClient, signed.digest) : null;
+
+            if (!response) {
+                if (!(await isStillActive(ctx.suiClient, lottery.objectId))) return { status: 'already_resolved' };
+                if (ctx.dryRun || !ctx.signer) return await simulateResolution(ctx, lottery);
+
+                signed ??= await signResolution(ctx, ctx.signer, lottery);
+                response = await ctx.suiClient.executeTransactionBlock({
+                    transactionBlock: signed.bytes,
+                    signature: signed.signature,
+                    options: RESPONSE_OPTIONS,
+                });
+            }
+
+            if (response.effects?.status.status !== 'success') {
+                // Executed and failed, so its gas coin has moved on and a retry needs a new transaction
+                signed = null;
+                throw new Error(response.effects?.status.error ?? 'Transaction failed');
+            }
+
+            await ctx.suiClient.waitForTransaction({ digest: response.digest });
+            return { status: 'resolved', digest: response.digest, winner: findWinner(response.events, ctx.txConfig.packageId) };
+        } catch (error) {
+            const meltyFiError = toMeltyFiError(error, ctx.txConfig.packageId);
+
+            // Lost a race with another resolver, or our own earlier attempt landed
+            if (meltyFiError.code === 'EInvalidLotteryState') return { status: 'already_resolved' };
+            if (meltyFiError.code === 'EProtocolPaused') return { status: 'paused' };
+
+            // Retrying cannot fix an empty gas account
+            const message = error instanceof Error ? error.message : String(error);
+            if (meltyFiError.code === 'InsufficientGas' || attempt === ctx.maxAttempts) return { status: 'failed', error: message };
+
+            const delay = RETRY_BASE_DELAY_MS * 2 ** (attempt - 1);
+            logger.warn('Resolution attempt failed, retrying', { attempt, delayMs: delay, error: message });
+            await sleep(delay);
+        }
+    }
+
+    return { status: 'failed', error: 'No attempts made' };
+}
@@ -0,0 +1,95 @@
+import type { SuiClient, SuiObjectResponse } from '@mysten/sui/client';
+import { SUI_CLOCK_OBJECT_ID } from '@mysten/sui/utils';
+
+/**
+ * Reads the on-chain state the keeper acts on: the protocol's active lottery
+ * map, each lottery's counters and the network clock.
+ */
+
+// Matches LOTTERY_ACTIVE in contracts/meltyfi/sources/core.move
+export const LOTTERY_ACTIVE = 0;
+
+// multiGetObjects rejects more IDs than this per call
+const MULTI_GET_LIMIT = 50;
+
+export interface ProtocolSnapshot {
+    paused: boolean;
+    activeLotteryObjectIds: string[];
+}
+
+export interface LotterySnapshot {
+    objectId: string;
+    lotteryId: string;
+    state: number;
+    expirationDate: number;
+    soldCount: bigint;
+    maxSupply: bigint;
+    participants: number;
+}
+
+export type ResolutionReason = 'expired' | 'sold_out';
+
+function moveFields(obj: SuiObjectResponse): any | null {
+    const content = obj.data?.content;
+    return content?.dataType === 'moveObject' ? content.fields : null;
+}
+
+export async function fetchProtocolSnapshot(suiClient: SuiClient, protocolObjectId: string): Promise<ProtocolSnapshot> {
+    const fields = moveFields(await suiClient.getObject({ id: protocolObjectId, options: { showContent: true } }));
+    if (!fields) throw new Error(`Protocol object ${protocolObjectId} not found`);
+
+    // active_lotteries: VecMap<u64, ID> of lottery_id -> Lottery object ID
+    const contents: any[] = fields.active_lotteries?.fields?.contents ?? [];
+    return {
+        paused: fields.paused === true,
+        activeLotteryObjectIds: contents.map((entry) => entry.fields?.value).filter(Boolean),
+    };
+}
+
+function parseLotterySnapshot(obj: SuiObjectResponse): LotterySnapshot | null {
+    const fields = moveFields(obj);
+    if (!fields || !obj.data?.objectId) return null;
+
+    return {
+        objectId: obj.data.objectId,
+        lotteryId: String(fields.lottery_id),
+        state: Number(fields.state),
+        expirationDate: Number(fields.expiration_date),
+        soldCount: BigInt(fields.sold_count),
+        maxSupply: BigInt(fields.max_supply),
+        participants: fields.participants?.fields?.contents?.length ?? 0,
+    };
+}
+
+export async function fetchLotterySnapshots(suiClient: SuiClient, objectIds: string[]): Promise<LotterySnapshot[]> {
+    const snapshots: LotterySnapshot[] = [];
+    for (let i = 0; i < objectIds.length; i += MULTI_GET_LIMIT) {
+        const objects = await suiClient.multiGetObjects({
+            ids: objectIds.slice(i, i + MULTI_GET_LIMIT),
+            options: { showContent: true },
+        });
+        snapshots.push(...objects
+            .map(parseLotterySnapshot)
+            .filter((snapshot): snapshot is LotterySnapshot => snapshot !== null));
+    }
+    return snapshots;
+}
+
+// The shared Clock's time, so a skewed local clock can never trigger an early resolution
+export async function fetchChainTime(suiClient: SuiClient): Promise<number> {
+    const fields = moveFields(await suiClient.getObject({ id: SUI_CLOCK_OBJECT_ID, options: { showContent: true } }));
+    if (!fields) throw new Error('Clock object not found');
+    return Number(fields.timestamp_ms);
+}
+
+/**
+ * Why the lottery can be resolved now, or null if it cannot.
+ * Calling resolve_lottery before either condition holds marks the lottery
+ * EXPIRED without a winner, so this check must stay in line with core.move.
+ */
+export function getResolutionReason(lottery: LotterySnapshot, chainTime: number): ResolutionReason | null {
+    if (lottery.state !== LOTTERY_ACTIVE) return null;
+    if (lottery.soldCount >= lottery.maxSupply) return 'sold_out';
+    if (chainTime >= lottery.expirationDate) return 'expired';
+    return null;
+}
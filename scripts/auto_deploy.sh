@@ -42,6 +42,26 @@ fi
 ACTIVE_ENV=$(sui client active-env 2>/dev/null)
 log "Active environment: $ACTIVE_ENV"
 
+# The environment is a user-chosen alias, so identify the network by its RPC URL
+ACTIVE_RPC=$(sui client envs --json 2>/dev/null | jq -r --arg env "$ACTIVE_ENV" '.[0][] | select(.alias == $env) | .rpc' 2>/dev/null)
+case "$ACTIVE_RPC" in
+    *mainnet*) NETWORK=mainnet ;;
+    *testnet*) NETWORK=testnet ;;
+    *devnet*) NETWORK=devnet ;;
+    *127.0.0.1*|*localhost*|*0.0.0.0*) NETWORK=localnet ;;
+    *)
+        case "$ACTIVE_ENV" in
+            mainnet|testnet|devnet|localnet) NETWORK=$ACTIVE_ENV ;;
+            *)
+                error "Cannot tell which network environment '$ACTIVE_ENV' (${ACTIVE_RPC:-unknown RPC}) points to."
+                echo "  Switch to an environment on mainnet, testnet, devnet or localnet: sui client switch --env <alias>"
+                exit 1
+                ;;
+        esac
+        ;;
+esac
+log "Network: $NETWORK"
+
 # Get active address
 ACTIVE_ADDRESS=$(sui client active-address 2>/dev/null)
 log "Active address: $ACTIVE_ADDRESS"
@@ -130,7 +150,7 @@ COIN_METADATA=$(echo "$JSON_OUTPUT" | jq -r '.objectChanges[]? | select(.objectT
 # Create deployment info file
 cat > deployment_info.json <<EOF
 {
-  "network": "$ACTIVE_ENV",
+  "network": "$NETWORK",
   "deployer": "$ACTIVE_ADDRESS",
   "timestamp": "$(date -u +"%Y-%m-%dT%H:%M:%SZ")",
   "packageId": "$PACKAGE_ID",
@@ -147,6 +167,12 @@ EOF
 
 log "Deployment info saved to: deployment_info.json"
 
+# Publish the deployment for the frontend, which loads it at runtime
+FRONTEND_DEPLOYMENTS="$SCRIPT_DIR/../frontend/public/deployments"
+mkdir -p "$FRONTEND_DEPLOYMENTS"
+cp deployment_info.json "$FRONTEND_DEPLOYMENTS/$NETWORK.json"
+log "Deployment info published to: frontend/public/deployments/$NETWORK.json"
+
 # Update environment files
 log "Updating environment files..."
 
@@ -162,8 +188,8 @@ cat > "$FRONTEND_ENV" <<EOF
 # =============================================================================
 
 # Network Configuration
-NEXT_PUBLIC_SUI_NETWORK=$ACTIVE_ENV
-NEXT_PUBLIC_SUI_RPC_URL=https://fullnode.testnet.sui.io:443
+NEXT_PUBLIC_SUI_NETWORK=$NETWORK
+NEXT_PUBLIC_SUI_RPC_URL=${ACTIVE_RPC:-https://fullnode.testnet.sui.io:443}
 
 # Contract Addresses
 NEXT_PUBLIC_MELTYFI_PACKAGE_ID=$PACKAGE_ID
@@ -193,36 +219,12 @@ if [ ! -f "$ROOT_ENV" ] || grep -q "NEXT_PUBLIC_MELTYFI_PACKAGE_ID=0x" "$ROOT_EN
     log "Root .env updated"
 fi
 
-# Create .env.example for reference
-ENV_EXAMPLE="$SCRIPT_DIR/../frontend/.env.example"
-cat > "$ENV_EXAMPLE" <<EOF
-# Network Configuration
-NEXT_PUBLIC_SUI_NETWORK=testnet
-NEXT_PUBLIC_SUI_RPC_URL=https://fullnode.testnet.sui.io:443
-
-# Contract Addresses (replace with your deployed values)
-NEXT_PUBLIC_MELTYFI_PACKAGE_ID=0x...
-NEXT_PUBLIC_PROTOCOL_OBJECT_ID=0x...
-NEXT_PUBLIC_CHOCOLATE_FACTORY_ID=0x...
-
-# Token Types
-NEXT_PUBLIC_CHOCO_CHIP_TYPE=PACKAGE_ID::choco_chip::CHOCO_CHIP
-NEXT_PUBLIC_WONKA_BAR_TYPE=PACKAGE_ID::wonka_bars::WonkaBars
-
-# Admin Capabilities
-NEXT_PUBLIC_ADMIN_CAP_ID=0x...
-NEXT_PUBLIC_FACTORY_ADMIN_ID=0x...
-NEXT_PUBLIC_UPGRADE_CAP_ID=0x...
-EOF
-
-log ".env.example created"
-
 echo ""
 echo "╔════════════════════════════════════════════════════════════════════════════╗"
 echo "║                         🎉 DEPLOYMENT SUCCESSFUL 🎉                        ║"
 echo "╚════════════════════════════════════════════════════════════════════════════╝"
 echo ""
-echo -e "${BLUE}Network:${NC}          $ACTIVE_ENV"
+echo -e "${BLUE}Network:${NC}          $NETWORK"
 echo -e "${BLUE}Deployer:${NC}         $ACTIVE_ADDRESS"
 echo ""
 echo -e "${GREEN}📦 Package ID:${NC}"
@@ -236,12 +238,11 @@ echo -e "${GREEN}⬆️  Upgrade Cap:${NC}       $UPGRADE_CAP"
 echo -e "${GREEN}🪙 Coin Metadata:${NC}     $COIN_METADATA"
 echo ""
 echo -e "${BLUE}🔗 View on Explorer:${NC}"
-echo "   https://suiscan.xyz/$ACTIVE_ENV/object/$PACKAGE_ID"
+echo "   https://suiscan.xyz/$NETWORK/object/$PACKAGE_ID"
 echo ""
 echo -e "${GREEN}✅ Environment files automatically updated:${NC}"
 echo "   - frontend/.env.local"
 echo "   - .env (root)"
-echo "   - frontend/.env.example"
 echo ""
 echo -e "${YELLOW}📝 Next steps:${NC}"
 echo "   1. Restart your frontend: npm run dev:frontend"